@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "areas" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "UserInvite" ADD COLUMN     "areas" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('REPORT_CREATE', 'REPORT_UPSERT', 'REPORT_UPDATE', 'REPORT_DELETE', 'PDF_GENERATE');
+
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "action" "AuditAction" NOT NULL,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "apiKeyId" TEXT,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT,
+    "vehicleNo" TEXT,
+    "reportDate" TEXT,
+    "area" TEXT,
+    "snapshotCode" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_occurredAt_idx" ON "AuditEvent"("occurredAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_action_idx" ON "AuditEvent"("action");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_actorEmail_idx" ON "AuditEvent"("actorEmail");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_targetType_targetId_idx" ON "AuditEvent"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_vehicleNo_reportDate_idx" ON "AuditEvent"("vehicleNo", "reportDate");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_snapshotCode_idx" ON "AuditEvent"("snapshotCode");
+
+-- Keep the audit trail append-only
+CREATE FUNCTION "audit_event_is_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditEvent rows cannot be updated or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_append_only"
+    BEFORE UPDATE OR DELETE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "audit_event_is_append_only"();
@@ -0,0 +1,75 @@
+-- Convert Report."reportDate" from text to DATE.
+-- Existing values are DD-MM-YYYY (or DD/MM/YYYY), with legacy YYYY-MM-DD rows
+-- (sometimes unpadded, sometimes with a time part). Anything else aborts the
+-- migration so no row is silently lost.
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "reportDate_new" DATE;
+
+UPDATE "Report" SET "reportDate_new" = CASE
+    WHEN btrim("reportDate") ~ '^\d{1,2}[-/]\d{1,2}[-/]\d{4}$'
+        THEN to_date(replace(btrim("reportDate"), '/', '-'), 'DD-MM-YYYY')
+    WHEN btrim("reportDate") ~ '^\d{4}-\d{1,2}-\d{1,2}([T ].*)?$'
+        THEN to_date(substring(btrim("reportDate") from '^\d{4}-\d{1,2}-\d{1,2}'), 'YYYY-MM-DD')
+END;
+
+DO $$
+DECLARE
+    unparsed INTEGER;
+BEGIN
+    SELECT count(*) INTO unparsed FROM "Report" WHERE "reportDate_new" IS NULL;
+    IF unparsed > 0 THEN
+        RAISE EXCEPTION '% Report row(s) have a reportDate in an unrecognised format; fix them before migrating', unparsed;
+    END IF;
+END $$;
+
+-- The same day stored in two formats becomes a duplicate: keep the most recent
+-- upload and record the others in the audit log before removing them
+CREATE TEMP TABLE "ReportDateDuplicate" ON COMMIT DROP AS
+SELECT "id" FROM (
+    SELECT "id", row_number() OVER (
+        PARTITION BY "vehicleNo", "reportDate_new"
+        ORDER BY "uploadedAt" DESC, "id" DESC
+    ) AS "rank"
+    FROM "Report"
+) AS "ranked"
+WHERE "rank" > 1;
+
+INSERT INTO "AuditEvent" ("id", "action", "targetType", "targetId", "vehicleNo", "reportDate", "area", "snapshotCode", "before")
+SELECT
+    gen_random_uuid()::text,
+    'REPORT_DELETE',
+    'Report',
+    r."id",
+    r."vehicleNo",
+    to_char(r."reportDate_new", 'DD-MM-YYYY'),
+    r."area",
+    r."snapshotCode",
+    jsonb_build_object(
+        'vehicleNo', r."vehicleNo",
+        'area', r."area",
+        'tankerType', r."tankerType",
+        'transporterName', r."transporterName",
+        'reportDate', r."reportDate",
+        'tripDistanceKm', r."tripDistanceKm",
+        'tripCount', r."tripCount",
+        'snapshotCode', r."snapshotCode",
+        'uploadedBy', r."uploadedBy",
+        'uploadedAt', r."uploadedAt",
+        'reason', 'Duplicate of a newer row for the same day (report date migration)'
+    )
+FROM "Report" r
+WHERE r."id" IN (SELECT "id" FROM "ReportDateDuplicate");
+
+DELETE FROM "Report" WHERE "id" IN (SELECT "id" FROM "ReportDateDuplicate");
+
+-- DropIndex (dropped with the column)
+ALTER TABLE "Report" DROP COLUMN "reportDate";
+ALTER TABLE "Report" RENAME COLUMN "reportDate_new" TO "reportDate";
+ALTER TABLE "Report" ALTER COLUMN "reportDate" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Report_reportDate_idx" ON "Report"("reportDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_vehicleNo_reportDate_key" ON "Report"("vehicleNo", "reportDate");
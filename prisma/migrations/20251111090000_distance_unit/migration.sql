@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "DistanceUnit" AS ENUM ('KM', 'ENGINE_HOURS');
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "tripDistance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "distanceUnit" "DistanceUnit" NOT NULL DEFAULT 'KM';
+
+-- Backfill from the formatted "123.45 km" strings. Uploads always stored a
+-- "km" suffix, even for engine-hour rows, so only values explicitly marked as
+-- hours can be recovered as ENGINE_HOURS; everything else is assumed to be km.
+UPDATE "Report"
+SET "tripDistance" = COALESCE(ROUND(SUBSTRING("tripDistanceKm" FROM '[-+]?[0-9]*\.?[0-9]+')::NUMERIC, 2)::DOUBLE PRECISION, 0),
+    "distanceUnit" = CASE
+      WHEN "tripDistanceKm" ~* '(hr|hour|engine)' THEN 'ENGINE_HOURS'::"DistanceUnit"
+      ELSE 'KM'::"DistanceUnit"
+    END;
+
+ALTER TABLE "Report" ALTER COLUMN "tripDistance" DROP DEFAULT;
+ALTER TABLE "Report" DROP COLUMN "tripDistanceKm";
+
+-- AlterTable
+ALTER TABLE "PdfGeneration" ADD COLUMN "summaryTotalEngineHours" DOUBLE PRECISION;
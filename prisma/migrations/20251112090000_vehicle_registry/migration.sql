@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "Vehicle" (
+    "id" TEXT NOT NULL,
+    "registrationNo" TEXT NOT NULL,
+    "area" TEXT NOT NULL,
+    "tankerType" TEXT NOT NULL,
+    "transporterName" TEXT NOT NULL,
+    "capacityLitres" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Vehicle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VehicleAssignment" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "area" TEXT NOT NULL,
+    "tankerType" TEXT NOT NULL,
+    "transporterName" TEXT NOT NULL,
+    "capacityLitres" INTEGER,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VehicleAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "vehicleId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Vehicle_registrationNo_key" ON "Vehicle"("registrationNo");
+CREATE INDEX "Vehicle_area_idx" ON "Vehicle"("area");
+CREATE UNIQUE INDEX "VehicleAssignment_vehicleId_effectiveFrom_key" ON "VehicleAssignment"("vehicleId", "effectiveFrom");
+CREATE INDEX "Report_vehicleId_idx" ON "Report"("vehicleId");
+
+-- AddForeignKey
+ALTER TABLE "VehicleAssignment" ADD CONSTRAINT "VehicleAssignment_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Report" ADD CONSTRAINT "Report_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "Vehicle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Register every vehicle seen in reports, with the attributes of its latest row
+INSERT INTO "Vehicle" ("id", "registrationNo", "area", "tankerType", "transporterName", "updatedAt")
+SELECT DISTINCT ON ("vehicleNo")
+    gen_random_uuid()::TEXT, "vehicleNo", "area", "tankerType", "transporterName", CURRENT_TIMESTAMP
+FROM "Report"
+ORDER BY "vehicleNo", "reportDate" DESC;
+
+-- Rebuild assignment history: each run of consecutive report dates with the
+-- same area, tanker type and transporter becomes one assignment, ending where
+-- the next run starts
+WITH ordered AS (
+    SELECT "vehicleNo", "reportDate", "area", "tankerType", "transporterName",
+        CASE
+            WHEN ("area", "tankerType", "transporterName") IS NOT DISTINCT FROM (
+                LAG("area") OVER w, LAG("tankerType") OVER w, LAG("transporterName") OVER w
+            ) THEN 0
+            ELSE 1
+        END AS "isChange"
+    FROM "Report"
+    WINDOW w AS (PARTITION BY "vehicleNo" ORDER BY "reportDate")
+), grouped AS (
+    SELECT *, SUM("isChange") OVER (PARTITION BY "vehicleNo" ORDER BY "reportDate") AS "run"
+    FROM ordered
+), runs AS (
+    SELECT "vehicleNo", "area", "tankerType", "transporterName", MIN("reportDate") AS "effectiveFrom"
+    FROM grouped
+    GROUP BY "vehicleNo", "run", "area", "tankerType", "transporterName"
+)
+INSERT INTO "VehicleAssignment" ("id", "vehicleId", "area", "tankerType", "transporterName", "effectiveFrom", "effectiveTo")
+SELECT gen_random_uuid()::TEXT, v."id", r."area", r."tankerType", r."transporterName", r."effectiveFrom",
+    LEAD(r."effectiveFrom") OVER (PARTITION BY r."vehicleNo" ORDER BY r."effectiveFrom")
+FROM runs r
+JOIN "Vehicle" v ON v."registrationNo" = r."vehicleNo";
+
+-- Link existing reports to their vehicle
+UPDATE "Report" r
+SET "vehicleId" = v."id"
+FROM "Vehicle" v
+WHERE v."registrationNo" = r."vehicleNo";
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "Area" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Area_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Transporter" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Transporter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Area_name_key" ON "Area"("name");
+CREATE UNIQUE INDEX "Transporter_name_key" ON "Transporter"("name");
+
+-- Seed both lists with every value already in use so existing uploads keep
+-- validating; variants of the same name can then be merged by an admin
+INSERT INTO "Area" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT TRIM("area") AS "name" FROM "Report"
+    UNION SELECT TRIM("area") FROM "Vehicle"
+    UNION SELECT TRIM(UNNEST("areas")) FROM "User"
+    UNION SELECT TRIM(UNNEST("areas")) FROM "UserInvite"
+) AS used
+WHERE "name" <> '';
+
+INSERT INTO "Transporter" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::TEXT, "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT TRIM("transporterName") AS "name" FROM "Report"
+    UNION SELECT TRIM("transporterName") FROM "Vehicle"
+) AS used
+WHERE "name" <> '';
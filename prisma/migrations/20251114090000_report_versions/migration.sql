@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "ReportVersion" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "vehicleNo" TEXT NOT NULL,
+    "area" TEXT NOT NULL,
+    "tankerType" TEXT NOT NULL,
+    "transporterName" TEXT NOT NULL,
+    "reportDate" DATE NOT NULL,
+    "tripDistance" DOUBLE PRECISION NOT NULL,
+    "distanceUnit" "DistanceUnit" NOT NULL,
+    "tripCount" INTEGER NOT NULL,
+    "snapshotCode" TEXT NOT NULL,
+    "uploadedBy" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL,
+    "replacedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "replacedBy" TEXT,
+    "replacedBySnapshot" TEXT,
+
+    CONSTRAINT "ReportVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportVersion_reportId_version_key" ON "ReportVersion"("reportId", "version");
+CREATE INDEX "ReportVersion_replacedBySnapshot_idx" ON "ReportVersion"("replacedBySnapshot");
+
+-- AddForeignKey
+ALTER TABLE "ReportVersion" ADD CONSTRAINT "ReportVersion_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'REPORT_RESTORE';
+ALTER TYPE "AuditAction" ADD VALUE 'REPORT_PURGE';
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Report_deletedAt_idx" ON "Report"("deletedAt");
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'REPORT_ROLLBACK';
+
+-- AlterTable
+ALTER TABLE "UploadSnapshot" ADD COLUMN "rolledBackAt" TIMESTAMP(3),
+ADD COLUMN "rolledBackBy" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UploadSnapshot" ADD COLUMN "fileKey" TEXT,
+ADD COLUMN "fileSha256" TEXT,
+ADD COLUMN "fileSize" INTEGER,
+ADD COLUMN "fileMimeType" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+-- Existing PDFs stay in "pdfBase64" until moved to storage with POST /api/admin/pdf-storage
+ALTER TABLE "PdfGeneration" ADD COLUMN "pdfKey" TEXT,
+ADD COLUMN "pdfSha256" TEXT,
+ADD COLUMN "pdfSize" INTEGER;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "UploadPreview" (
+    "id" TEXT NOT NULL,
+    "snapshotCode" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "apiKeyId" TEXT,
+    "rows" JSONB NOT NULL,
+    "baseline" JSONB NOT NULL,
+    "fileName" TEXT,
+    "fileKey" TEXT,
+    "fileSha256" TEXT,
+    "fileSize" INTEGER,
+    "fileMimeType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UploadPreview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadPreview_snapshotCode_key" ON "UploadPreview"("snapshotCode");
+
+-- CreateIndex
+CREATE INDEX "UploadPreview_createdBy_idx" ON "UploadPreview"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "UploadPreview_expiresAt_idx" ON "UploadPreview"("expiresAt");
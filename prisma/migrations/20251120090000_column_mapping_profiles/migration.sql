@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ColumnMappingProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "headerAliases" JSONB NOT NULL DEFAULT '{}',
+    "columns" JSONB NOT NULL DEFAULT '{}',
+    "headerRow" INTEGER,
+    "dateFormat" TEXT,
+    "distanceUnit" "DistanceUnit",
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ColumnMappingProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ColumnMappingProfile_name_key" ON "ColumnMappingProfile"("name");
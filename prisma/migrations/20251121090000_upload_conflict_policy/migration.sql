@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "UploadConflictPolicy" AS ENUM ('OVERWRITE', 'KEEP_EXISTING', 'FAIL', 'LARGER');
+
+-- AlterTable
+-- Earlier uploads always overwrote existing rows
+ALTER TABLE "UploadSnapshot" ADD COLUMN "conflictPolicy" "UploadConflictPolicy" NOT NULL DEFAULT 'OVERWRITE';
+
+-- AlterTable
+ALTER TABLE "UploadPreview" ADD COLUMN "conflictPolicy" "UploadConflictPolicy" NOT NULL DEFAULT 'OVERWRITE';
@@ -0,0 +1,43 @@
+-- Sign-in lowercases the email like invites do, so lowercase existing accounts
+-- to match. Reports and PDFs follow through their ON UPDATE CASCADE keys; the
+-- other columns holding a user's email are updated here. AuditEvent.actorEmail
+-- is left as it is: the audit trail is append-only and records the actor as
+-- they were named at the time.
+--
+-- An email that only differs by case from another account's (e.g. a lowercase
+-- account made on upload next to a mixed-case one) can't be lowercased. It is
+-- left as it is and listed as a notice; those accounts still sign in with the
+-- exact email, and an admin can deactivate the duplicate.
+
+CREATE TEMP TABLE "UserEmailChange" ON COMMIT DROP AS
+SELECT u."email" AS "old", lower(trim(u."email")) AS "new"
+FROM "User" u
+WHERE u."email" <> lower(trim(u."email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "User" other
+    WHERE other."id" <> u."id" AND lower(trim(other."email")) = lower(trim(u."email"))
+  );
+
+UPDATE "User" u SET "email" = c."new" FROM "UserEmailChange" c WHERE u."email" = c."old";
+
+UPDATE "ApiKey" t SET "createdBy" = c."new" FROM "UserEmailChange" c WHERE t."createdBy" = c."old";
+UPDATE "UserInvite" t SET "invitedBy" = c."new" FROM "UserEmailChange" c WHERE t."invitedBy" = c."old";
+UPDATE "Report" t SET "deletedBy" = c."new" FROM "UserEmailChange" c WHERE t."deletedBy" = c."old";
+UPDATE "ReportVersion" t SET "uploadedBy" = c."new" FROM "UserEmailChange" c WHERE t."uploadedBy" = c."old";
+UPDATE "ReportVersion" t SET "replacedBy" = c."new" FROM "UserEmailChange" c WHERE t."replacedBy" = c."old";
+UPDATE "VehicleAssignment" t SET "createdBy" = c."new" FROM "UserEmailChange" c WHERE t."createdBy" = c."old";
+UPDATE "ColumnMappingProfile" t SET "createdBy" = c."new" FROM "UserEmailChange" c WHERE t."createdBy" = c."old";
+UPDATE "UploadSnapshot" t SET "uploadedBy" = c."new" FROM "UserEmailChange" c WHERE t."uploadedBy" = c."old";
+UPDATE "UploadSnapshot" t SET "rolledBackBy" = c."new" FROM "UserEmailChange" c WHERE t."rolledBackBy" = c."old";
+UPDATE "UploadPreview" t SET "createdBy" = c."new" FROM "UserEmailChange" c WHERE t."createdBy" = c."old";
+
+DO $$
+DECLARE
+    leftover RECORD;
+BEGIN
+    FOR leftover IN
+        SELECT "email" FROM "User" WHERE "email" <> lower(trim("email")) ORDER BY "email"
+    LOOP
+        RAISE NOTICE 'User "%" differs only by case from another account and was not lowercased', leftover."email";
+    END LOOP;
+END $$;
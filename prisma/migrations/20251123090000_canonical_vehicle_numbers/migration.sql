@@ -0,0 +1,53 @@
+-- Convert existing vehicle numbers to canonical form (upper case letters and
+-- digits only, see canonicalVehicleNo). A value is only converted when no
+-- other row would end up with the same key; the ones left behind are listed as
+-- notices and show up in GET /api/vehicles/merge, to be merged by an admin.
+
+-- Registry entries
+UPDATE "Vehicle" v
+SET "registrationNo" = regexp_replace(upper(v."registrationNo"), '[^A-Z0-9]', '', 'g')
+WHERE v."registrationNo" <> regexp_replace(upper(v."registrationNo"), '[^A-Z0-9]', '', 'g')
+  AND NOT EXISTS (
+    SELECT 1 FROM "Vehicle" other
+    WHERE other."id" <> v."id"
+      AND regexp_replace(upper(other."registrationNo"), '[^A-Z0-9]', '', 'g')
+        = regexp_replace(upper(v."registrationNo"), '[^A-Z0-9]', '', 'g')
+  );
+
+-- Report rows, per vehicle/date key (rows in the recycle bin included, as they hold their key)
+UPDATE "Report" r
+SET "vehicleNo" = regexp_replace(upper(r."vehicleNo"), '[^A-Z0-9]', '', 'g')
+WHERE r."vehicleNo" <> regexp_replace(upper(r."vehicleNo"), '[^A-Z0-9]', '', 'g')
+  AND NOT EXISTS (
+    SELECT 1 FROM "Report" other
+    WHERE other."id" <> r."id"
+      AND other."reportDate" = r."reportDate"
+      AND regexp_replace(upper(other."vehicleNo"), '[^A-Z0-9]', '', 'g')
+        = regexp_replace(upper(r."vehicleNo"), '[^A-Z0-9]', '', 'g')
+  );
+
+-- Link converted rows to the registry entry for their new number
+UPDATE "Report" r
+SET "vehicleId" = v."id"
+FROM "Vehicle" v
+WHERE v."registrationNo" = r."vehicleNo"
+  AND r."vehicleId" IS DISTINCT FROM v."id";
+
+DO $$
+DECLARE
+    leftover RECORD;
+BEGIN
+    FOR leftover IN
+        SELECT 'Report' AS "table", "vehicleNo" AS "value", count(*) AS "rows"
+        FROM "Report"
+        WHERE "vehicleNo" <> regexp_replace(upper("vehicleNo"), '[^A-Z0-9]', '', 'g')
+        GROUP BY "vehicleNo"
+        UNION ALL
+        SELECT 'Vehicle', "registrationNo", 1
+        FROM "Vehicle"
+        WHERE "registrationNo" <> regexp_replace(upper("registrationNo"), '[^A-Z0-9]', '', 'g')
+    LOOP
+        RAISE NOTICE '% "%" (% row(s)) collides with another number in canonical form; merge it with the vehicle number merge tool',
+            leftover."table", leftover."value", leftover."rows";
+    END LOOP;
+END $$;
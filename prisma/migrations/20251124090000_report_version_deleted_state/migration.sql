@@ -0,0 +1,7 @@
+-- Record whether archived values were in the recycle bin, so rolling back an
+-- upload that revived a deleted row puts the row back in the bin. Versions
+-- archived before this have no record of it and are treated as live.
+
+-- AlterTable
+ALTER TABLE "ReportVersion" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedBy" TEXT;
@@ -0,0 +1,611 @@
+"use client";
+import { FormEvent, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { authFetch } from "@/lib/auth-fetch";
+
+type AdminUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: "USER" | "ADMIN";
+  isActive: boolean;
+  deactivatedAt: string | null;
+  lastLoginAt: string | null;
+  failedLoginCount: number;
+  lastFailedLoginAt: string | null;
+  lockedUntil: string | null;
+  areas: string[];
+  totpEnabledAt: string | null;
+  createdAt: string;
+};
+
+type PendingInvite = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: "USER" | "ADMIN";
+  areas: string[];
+  invitedBy: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdBy: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  owner: { id: string; email: string; name: string | null };
+};
+
+const parseAreaList = (value: string) =>
+  value.split(",").map((area) => area.trim()).filter(Boolean);
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return "Never";
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) return value;
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  return `${dd}-${mm}-${date.getFullYear()} ${hh}:${min}`;
+};
+
+export default function AdminUsersPage() {
+  const router = useRouter();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteName, setInviteName] = useState("");
+  const [inviteRole, setInviteRole] = useState<"USER" | "ADMIN">("USER");
+  const [inviteAreas, setInviteAreas] = useState("");
+
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [apiKeyScopes, setApiKeyScopes] = useState<string[]>([]);
+  const [keyName, setKeyName] = useState("");
+  const [keyOwnerId, setKeyOwnerId] = useState("");
+  const [keyScopes, setKeyScopes] = useState<string[]>(["reports:write"]);
+  const [keyExpiresAt, setKeyExpiresAt] = useState("");
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!localStorage.getItem("accessToken")) {
+      router.replace("/login");
+      return;
+    }
+    loadUsers();
+  }, [router]);
+
+  async function loadUsers() {
+    try {
+      setLoading(true);
+      setPageError(null);
+      const [res, keysRes] = await Promise.all([
+        authFetch("/api/admin/users"),
+        authFetch("/api/admin/api-keys"),
+      ]);
+      if (res.status === 401) {
+        router.replace("/login");
+        return;
+      }
+      const payload = await res.json();
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to load users");
+      }
+      setUsers(payload.users);
+      setInvites(payload.invites);
+
+      const keysPayload = await keysRes.json();
+      if (!keysRes.ok) {
+        throw new Error(keysPayload?.error || "Failed to load API keys");
+      }
+      setApiKeys(keysPayload.apiKeys);
+      setApiKeyScopes(keysPayload.scopes);
+    } catch (e) {
+      console.error("Failed to load users:", e);
+      setPageError(e instanceof Error ? e.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * Run an admin request, surface its error, and refresh the lists afterwards
+   */
+  async function runAction(request: () => Promise<Response>, fallbackError: string) {
+    setSaving(true);
+    setPageError(null);
+    setNotice(null);
+    try {
+      const res = await request();
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload?.error || fallbackError);
+      }
+      await loadUsers();
+      return payload;
+    } catch (e) {
+      console.error(e);
+      setPageError(e instanceof Error ? e.message : fallbackError);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const updateUser = (user: AdminUser, changes: Partial<Pick<AdminUser, "role" | "isActive" | "areas">>) =>
+    runAction(
+      () =>
+        authFetch(`/api/admin/users/${user.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        }),
+      "Failed to update user"
+    );
+
+  async function handleToggleActive(user: AdminUser) {
+    const action = user.isActive ? "deactivate" : "reactivate";
+    if (!window.confirm(`Are you sure you want to ${action} ${user.email}?`)) return;
+    await updateUser(user, { isActive: !user.isActive });
+  }
+
+  async function handleResetPassword(user: AdminUser) {
+    if (!window.confirm(`Reset the password for ${user.email}?`)) return;
+    const payload = await runAction(
+      () => authFetch(`/api/admin/users/${user.id}/password`, { method: "POST" }),
+      "Failed to reset password"
+    );
+    if (payload?.temporaryPassword) {
+      setNotice(`Temporary password for ${user.email}: ${payload.temporaryPassword}`);
+    }
+  }
+
+  async function handleEditAreas(user: AdminUser) {
+    const value = window.prompt(
+      `Areas for ${user.email} (comma-separated; ignored for ADMINs, who see every area)`,
+      user.areas.join(", ")
+    );
+    if (value === null) return;
+    await updateUser(user, { areas: parseAreaList(value) });
+  }
+
+  async function handleUnlock(user: AdminUser) {
+    await runAction(
+      () => authFetch(`/api/admin/users/${user.id}/unlock`, { method: "POST" }),
+      "Failed to unlock user"
+    );
+  }
+
+  async function handleResetTwoFactor(user: AdminUser) {
+    if (!window.confirm(`Remove two-factor authentication for ${user.email}? Their sessions will be ended.`)) return;
+    await runAction(
+      () => authFetch(`/api/admin/users/${user.id}/two-factor`, { method: "DELETE" }),
+      "Failed to reset two-factor"
+    );
+  }
+
+  const isLocked = (user: AdminUser) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  async function handleInvite(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!inviteEmail.trim()) {
+      setPageError("Email is required to send an invite");
+      return;
+    }
+    const payload = await runAction(
+      () =>
+        authFetch("/api/admin/invites", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            email: inviteEmail.trim(),
+            name: inviteName.trim() || undefined,
+            role: inviteRole,
+            areas: parseAreaList(inviteAreas),
+          }),
+        }),
+      "Failed to create invite"
+    );
+    if (payload?.inviteUrl) {
+      const delivery = payload.emailed ? "Invite emailed to" : "Invite created for (email not sent)";
+      setNotice(`${delivery} ${payload.invite.email}: ${payload.inviteUrl}`);
+      setInviteEmail("");
+      setInviteName("");
+      setInviteRole("USER");
+      setInviteAreas("");
+    }
+  }
+
+  async function handleRevokeInvite(invite: PendingInvite) {
+    if (!window.confirm(`Revoke the invite for ${invite.email}?`)) return;
+    await runAction(
+      () =>
+        authFetch("/api/admin/invites", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: invite.id }),
+        }),
+      "Failed to revoke invite"
+    );
+  }
+
+  function toggleKeyScope(scope: string) {
+    setKeyScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  }
+
+  async function handleCreateApiKey(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!keyName.trim()) {
+      setPageError("Name is required to create an API key");
+      return;
+    }
+    const payload = await runAction(
+      () =>
+        authFetch("/api/admin/api-keys", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: keyName.trim(),
+            ownerId: keyOwnerId || undefined,
+            scopes: keyScopes,
+            expiresAt: keyExpiresAt ? new Date(`${keyExpiresAt}T23:59:59`).toISOString() : undefined,
+          }),
+        }),
+      "Failed to create API key"
+    );
+    if (payload?.key) {
+      setNotice(`API key for ${payload.apiKey.owner.email} (copy it now, it won't be shown again): ${payload.key}`);
+      setKeyName("");
+      setKeyOwnerId("");
+      setKeyScopes(["reports:write"]);
+      setKeyExpiresAt("");
+    }
+  }
+
+  async function handleRevokeApiKey(apiKey: ApiKeySummary) {
+    if (!window.confirm(`Revoke the API key "${apiKey.name}" (${apiKey.prefix})?`)) return;
+    await runAction(
+      () =>
+        authFetch("/api/admin/api-keys", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: apiKey.id }),
+        }),
+      "Failed to revoke API key"
+    );
+  }
+
+  const apiKeyStatus = (apiKey: ApiKeySummary) => {
+    if (apiKey.revokedAt) return `Revoked ${formatDateTime(apiKey.revokedAt)}`;
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return "Expired";
+    return apiKey.expiresAt ? `Expires ${formatDateTime(apiKey.expiresAt)}` : "Active";
+  };
+
+  return (
+    <main className="p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+        <h1 className="text-2xl font-bold">User Management</h1>
+        <button
+          onClick={() => router.push("/")}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Back to reports
+        </button>
+      </div>
+
+      {pageError && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {pageError}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800 break-all">
+          {notice}
+        </div>
+      )}
+      {loading && <div className="mb-4 text-sm text-gray-600">Loading users…</div>}
+
+      {/* Invite Section */}
+      <div className="mb-6 p-4 border rounded-lg bg-white shadow">
+        <h2 className="text-lg font-semibold mb-3">Invite User</h2>
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Email
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Name
+            <input
+              value={inviteName}
+              onChange={(e) => setInviteName(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Role
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as "USER" | "ADMIN")}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="USER">USER</option>
+              <option value="ADMIN">ADMIN</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Areas (comma-separated)
+            <input
+              value={inviteAreas}
+              onChange={(e) => setInviteAreas(e.target.value)}
+              disabled={inviteRole === "ADMIN"}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Invite
+          </button>
+        </form>
+
+        {invites.length > 0 && (
+          <div className="mt-4 border-t pt-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Pending Invites</h3>
+            <ul className="divide-y divide-gray-200 text-sm">
+              {invites.map((invite) => (
+                <li key={invite.id} className="flex items-center justify-between py-2">
+                  <span>
+                    {invite.email} ({invite.role}{invite.areas.length > 0 ? `, ${invite.areas.join(", ")}` : ""}) — invited by {invite.invitedBy}, expires {formatDateTime(invite.expiresAt)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRevokeInvite(invite)}
+                    disabled={saving}
+                    className="px-2 py-1 text-xs font-medium text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Users Table */}
+      <div className="border rounded-lg bg-white shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Areas</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Login</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Failed Logins</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">2FA</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user, idx) => (
+                <tr key={user.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="px-4 py-3 text-sm font-medium">{user.email}</td>
+                  <td className="px-4 py-3 text-sm">{user.name ?? ""}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateUser(user, { role: e.target.value as "USER" | "ADMIN" })}
+                      disabled={saving}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      <option value="USER">USER</option>
+                      <option value="ADMIN">ADMIN</option>
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {user.role === "ADMIN" ? (
+                      "All areas"
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleEditAreas(user)}
+                        disabled={saving}
+                        className="text-left text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                      >
+                        {user.areas.length > 0 ? user.areas.join(", ") : "None assigned"}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {user.isActive ? "Active" : `Deactivated ${formatDateTime(user.deactivatedAt)}`}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{formatDateTime(user.lastLoginAt)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {user.failedLoginCount > 0
+                      ? `${user.failedLoginCount} (last ${formatDateTime(user.lastFailedLoginAt)})`
+                      : "0"}
+                    {isLocked(user) && (
+                      <span className="block text-red-600">Locked until {formatDateTime(user.lockedUntil)}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{user.totpEnabledAt ? "On" : "Off"}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      {(isLocked(user) || user.failedLoginCount > 0) && (
+                        <button
+                          type="button"
+                          onClick={() => handleUnlock(user)}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs font-medium text-green-700 border border-green-700 rounded hover:bg-green-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {user.totpEnabledAt && (
+                        <button
+                          type="button"
+                          onClick={() => handleResetTwoFactor(user)}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleResetPassword(user)}
+                        disabled={saving}
+                        className="px-2 py-1 text-xs font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reset Password
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleToggleActive(user)}
+                        disabled={saving}
+                        className="px-2 py-1 text-xs font-medium text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {user.isActive ? "Deactivate" : "Reactivate"}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* API Keys Section */}
+      <div className="mt-6 p-4 border rounded-lg bg-white shadow">
+        <h2 className="text-lg font-semibold mb-3">API Keys</h2>
+        <p className="mb-3 text-sm text-gray-600">
+          Machine clients send the key as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key</code>.
+          Requests act as the key&apos;s owner, limited to its scopes.
+        </p>
+        <form onSubmit={handleCreateApiKey} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Name
+            <input
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              placeholder="e.g. Telematics nightly upload"
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Owner
+            <select
+              value={keyOwnerId}
+              onChange={(e) => setKeyOwnerId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Me</option>
+              {users.filter((user) => user.isActive).map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.email}
+                </option>
+              ))}
+            </select>
+          </label>
+          <fieldset className="flex flex-col gap-1 text-sm text-gray-700">
+            Scopes
+            {apiKeyScopes.map((scope) => (
+              <label key={scope} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={keyScopes.includes(scope)}
+                  onChange={() => toggleKeyScope(scope)}
+                />
+                {scope}
+              </label>
+            ))}
+          </fieldset>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Expires (optional)
+            <input
+              type="date"
+              value={keyExpiresAt}
+              onChange={(e) => setKeyExpiresAt(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving || keyScopes.length === 0}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create API Key
+          </button>
+        </form>
+
+        {apiKeys.length > 0 && (
+          <div className="mt-4 border-t pt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Key</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Owner</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Scopes</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Used</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {apiKeys.map((apiKey) => (
+                  <tr key={apiKey.id}>
+                    <td className="px-4 py-2 font-medium">{apiKey.name}</td>
+                    <td className="px-4 py-2 font-mono">{apiKey.prefix}_…</td>
+                    <td className="px-4 py-2">{apiKey.owner.email}</td>
+                    <td className="px-4 py-2">{apiKey.scopes.join(", ")}</td>
+                    <td className="px-4 py-2">{formatDateTime(apiKey.lastUsedAt)}</td>
+                    <td className="px-4 py-2">{apiKeyStatus(apiKey)}</td>
+                    <td className="px-4 py-2">
+                      {!apiKey.revokedAt && (
+                        <button
+                          type="button"
+                          onClick={() => handleRevokeApiKey(apiKey)}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs font-medium text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Admin API Key Route
+ *
+ * - GET: List API keys (prefix, owner, scopes, last use; never the key itself)
+ * - POST: Create a key for a user; the raw key is returned once and can't be retrieved later
+ * - DELETE: Revoke a key
+ *
+ * Requires the users:manage permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { API_KEY_SCOPES, generateApiKey, normalizeScopes } from "@/lib/api-keys";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdBy: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  owner: { select: { id: true, email: true, name: true } },
+} as const;
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "users:manage");
+
+    const apiKeys = await prisma.apiKey.findMany({
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ apiKeys, scopes: API_KEY_SCOPES });
+  } catch (error: any) {
+    console.error("Failed to list API keys", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list API keys";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireUser(req, "users:manage");
+
+    const { name, ownerId, scopes, expiresAt } = await req.json();
+
+    const trimmedName = String(name ?? "").trim();
+    if (!trimmedName) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return NextResponse.json({ error: "scopes must be a non-empty array" }, { status: 400 });
+    }
+
+    const normalizedScopes = normalizeScopes(scopes);
+    if (normalizedScopes.length !== new Set(scopes).size) {
+      return NextResponse.json(
+        { error: `scopes must be drawn from: ${API_KEY_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt) {
+      expiry = new Date(expiresAt);
+      if (Number.isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return NextResponse.json({ error: "expiresAt must be a future date" }, { status: 400 });
+      }
+    }
+
+    // Keys act as their owner; default to the admin creating the key
+    const owner = await prisma.user.findUnique({ where: { id: ownerId || admin.id } });
+    if (!owner) {
+      return NextResponse.json({ error: "Owner not found" }, { status: 404 });
+    }
+    if (!owner.isActive) {
+      return NextResponse.json({ error: "Owner account is deactivated" }, { status: 400 });
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: trimmedName,
+        prefix,
+        keyHash,
+        scopes: normalizedScopes,
+        ownerId: owner.id,
+        createdBy: admin.email,
+        expiresAt: expiry,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    return NextResponse.json({ success: true, apiKey, key }, { status: 201 });
+  } catch (error: any) {
+    console.error("Failed to create API key", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to create API key";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    await requireUser(req, "users:manage");
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: API_KEY_SELECT,
+    });
+    return NextResponse.json({ success: true, apiKey });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+    console.error("Failed to revoke API key", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to revoke API key";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
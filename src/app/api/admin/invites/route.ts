@@ -0,0 +1,124 @@
+/**
+ * Admin Invite API Route
+ *
+ * - POST: Invite a user by email; the one-time signup link is emailed and
+ *   also returned so it can be shared another way if mail is not configured
+ * - DELETE: Revoke a pending invite
+ *
+ * Requires the users:manage permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAppUrl, sendMail } from "@/lib/mail";
+import { prisma } from "@/lib/prisma";
+import { generateToken } from "@/lib/tokens";
+import { normalizeAreas, requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invite links are valid for 7 days
+const ROLES = ["USER", "ADMIN"] as const;
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireUser(req, "users:manage");
+    const { email, name, role = "USER", areas = [] } = await req.json();
+
+    const normalizedEmail = String(email ?? "").trim().toLowerCase();
+    if (!normalizedEmail) {
+      return NextResponse.json({ error: "email is required" }, { status: 400 });
+    }
+
+    if (!ROLES.includes(role)) {
+      return NextResponse.json({ error: "role must be USER or ADMIN" }, { status: 400 });
+    }
+
+    if (!Array.isArray(areas)) {
+      return NextResponse.json({ error: "areas must be an array" }, { status: 400 });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    if (existing) {
+      return NextResponse.json({ error: "A user with this email already exists" }, { status: 409 });
+    }
+
+    // Resolved first so a missing APP_URL fails before the invite is issued
+    const appUrl = getAppUrl();
+    const { token, tokenHash } = generateToken();
+    const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+
+    // Only one live invite per email: revoke older ones before issuing a new link
+    const [, invite] = await prisma.$transaction([
+      prisma.userInvite.updateMany({
+        where: { email: normalizedEmail, acceptedAt: null, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+      prisma.userInvite.create({
+        data: {
+          email: normalizedEmail,
+          name: name ? String(name).trim() : null,
+          role,
+          areas: normalizeAreas(areas),
+          tokenHash,
+          invitedBy: admin.email,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    const inviteUrl = `${appUrl}/signup?invite=${encodeURIComponent(token)}`;
+
+    let emailed = true;
+    try {
+      await sendMail({
+        to: invite.email,
+        subject: "You've been invited to DJB Daily Distance Reports",
+        text: `${admin.email} has invited you to DJB Daily Distance Reports.\n\n`
+          + `Create your account with this link (valid for 7 days):\n${inviteUrl}`,
+      });
+    } catch (mailError) {
+      emailed = false;
+      console.error("Failed to email invite", mailError);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        invite: { id: invite.id, email: invite.email, role: invite.role, expiresAt: invite.expiresAt },
+        inviteUrl,
+        emailed,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Failed to create invite", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to create invite";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    await requireUser(req, "users:manage");
+    const { id } = await req.json();
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const invite = await prisma.userInvite.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    return NextResponse.json({ success: true, invite: { id: invite.id, email: invite.email } });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+    console.error("Failed to revoke invite", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to revoke invite";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Admin PDF Storage Route
+ *
+ * - GET: How many generated PDFs are in storage and how many are still in the database
+ * - POST: Move a batch of PDFs from the database to storage ({ limit?: number },
+ *         default 50, max 500); repeat until remaining is 0
+ *
+ * Requires the storage:manage permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { moveDatabasePdfs } from "@/lib/pdf-storage";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 500;
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "storage:manage");
+
+    const [inStorage, inDatabase] = await Promise.all([
+      prisma.pdfGeneration.count({ where: { pdfKey: { not: null } } }),
+      prisma.pdfGeneration.count({ where: { pdfBase64: { not: null } } }),
+    ]);
+
+    return NextResponse.json({ inStorage, inDatabase });
+  } catch (error: any) {
+    console.error("Failed to load PDF storage status", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load PDF storage status";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    await requireUser(req, "storage:manage");
+    const body = await req.json().catch(() => ({}));
+
+    const requestedLimit = Number(body?.limit ?? DEFAULT_BATCH_SIZE);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(Math.trunc(requestedLimit), 1), MAX_BATCH_SIZE)
+      : DEFAULT_BATCH_SIZE;
+
+    const result = await moveDatabasePdfs(limit);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error("Failed to move PDFs to storage", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to move PDFs to storage";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
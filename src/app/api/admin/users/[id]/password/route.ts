@@ -0,0 +1,60 @@
+/**
+ * Admin Password Reset API Route
+ *
+ * - POST: Set a new password for a user. When no password is supplied a
+ *   temporary one is generated and returned once in the response. The user's
+ *   existing sessions are revoked.
+ *
+ * Requires the users:manage permission.
+ */
+
+import { randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { revokeAllSessions } from "@/lib/sessions";
+import { MIN_PASSWORD_LENGTH, requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireUser(req, "users:manage");
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const supplied = typeof body?.password === "string" ? body.password : "";
+    if (supplied && supplied.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const password = supplied || randomBytes(9).toString("base64url");
+    const hash = await bcrypt.hash(password, 12);
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { password: hash },
+      select: { id: true, email: true },
+    });
+
+    await revokeAllSessions(user.id);
+
+    return NextResponse.json({
+      success: true,
+      user,
+      temporaryPassword: supplied ? undefined : password,
+    });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Failed to reset password", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to reset password";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Admin Single-User API Route
+ *
+ * - PATCH: Change a user's role, name, assigned areas or active status
+ *
+ * Requires the users:manage permission. Admins can't demote or deactivate
+ * themselves so the last admin can't lock everyone out. Deactivating a user
+ * revokes all of their sessions.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { revokeAllSessions } from "@/lib/sessions";
+import { normalizeAreas, requireUser, USER_SUMMARY_SELECT } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const ROLES = ["USER", "ADMIN"] as const;
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireUser(req, "users:manage");
+    const { id } = await params;
+    const { role, isActive, name, areas } = await req.json();
+
+    const data: {
+      role?: (typeof ROLES)[number];
+      isActive?: boolean;
+      deactivatedAt?: Date | null;
+      name?: string | null;
+      areas?: string[];
+    } = {};
+
+    if (role !== undefined) {
+      if (!ROLES.includes(role)) {
+        return NextResponse.json({ error: "role must be USER or ADMIN" }, { status: 400 });
+      }
+      if (id === admin.id && role !== admin.role) {
+        return NextResponse.json({ error: "You can't change your own role" }, { status: 400 });
+      }
+      data.role = role;
+    }
+
+    if (isActive !== undefined) {
+      if (typeof isActive !== "boolean") {
+        return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+      }
+      if (id === admin.id && !isActive) {
+        return NextResponse.json({ error: "You can't deactivate your own account" }, { status: 400 });
+      }
+      data.isActive = isActive;
+      data.deactivatedAt = isActive ? null : new Date();
+    }
+
+    if (name !== undefined) {
+      data.name = name ? String(name).trim() : null;
+    }
+
+    if (areas !== undefined) {
+      if (!Array.isArray(areas)) {
+        return NextResponse.json({ error: "areas must be an array" }, { status: 400 });
+      }
+      data.areas = normalizeAreas(areas);
+    }
+
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data,
+      select: USER_SUMMARY_SELECT,
+    });
+
+    if (data.isActive === false) {
+      await revokeAllSessions(user.id);
+    }
+
+    return NextResponse.json({ success: true, user });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Failed to update user", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to update user";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Admin Two-Factor Reset API Route
+ *
+ * - DELETE: Remove a user's two-factor enrolment (e.g. a lost phone) and end
+ *   their sessions; if two-factor is enforced they enrol again at next login
+ *
+ * Requires the users:manage permission. Admins manage their own two-factor
+ * from the security page instead.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { revokeAllSessions } from "@/lib/sessions";
+import { disableTwoFactor } from "@/lib/two-factor";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireUser(req, "users:manage");
+    const { id } = await params;
+
+    if (id === admin.id) {
+      return NextResponse.json({ error: "You can't reset your own two-factor authentication" }, { status: 400 });
+    }
+
+    await disableTwoFactor(id);
+    await revokeAllSessions(id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Failed to reset two-factor", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to reset two-factor";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
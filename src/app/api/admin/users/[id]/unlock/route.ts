@@ -0,0 +1,32 @@
+/**
+ * Admin Account Unlock API Route
+ *
+ * - POST: Clear a user's failed-login counter and any temporary lockout
+ *
+ * Requires the users:manage permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { resetAccountFailures } from "@/lib/login-throttle";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireUser(req, "users:manage");
+    const { id } = await params;
+
+    await resetAccountFailures(id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Failed to unlock user", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to unlock user";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Admin User Management API Route
+ *
+ * - GET: List users (with last login) and pending invites
+ *
+ * Requires the users:manage permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { requireUser, USER_SUMMARY_SELECT } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "users:manage");
+
+    const [users, invites] = await Promise.all([
+      prisma.user.findMany({
+        select: USER_SUMMARY_SELECT,
+        orderBy: { email: "asc" },
+      }),
+      prisma.userInvite.findMany({
+        where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          areas: true,
+          invitedBy: true,
+          expiresAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({ users, invites });
+  } catch (error: any) {
+    console.error("Failed to list users", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list users";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
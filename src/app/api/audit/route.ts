@@ -0,0 +1,104 @@
+/**
+ * Audit Log API Route
+ *
+ * - GET: Search audit events, newest first
+ *   Query params (all optional): action, actor (email, partial match), vehicleNo,
+ *   reportDate (DD-MM-YYYY or YYYY-MM-DD), area, snapshotCode, targetId, from/to (YYYY-MM-DD,
+ *   inclusive, on the event time), limit (default 50, max 200) and cursor (the
+ *   nextCursor of the previous page)
+ *
+ * Requires the audit:read permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AuditAction, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { formatReportDate, parseDayParam, parseReportDate } from "@/lib/report-dates";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "audit:read");
+    const params = req.nextUrl.searchParams;
+    const param = (name: string) => params.get(name)?.trim() || undefined;
+
+    const where: Prisma.AuditEventWhereInput = {};
+
+    const action = param("action");
+    if (action) {
+      if (!(action in AuditAction)) {
+        return NextResponse.json(
+          { error: `action must be one of: ${Object.keys(AuditAction).join(", ")}` },
+          { status: 400 }
+        );
+      }
+      where.action = action as AuditAction;
+    }
+
+    const actor = param("actor");
+    if (actor) where.actorEmail = { contains: actor, mode: "insensitive" };
+
+    const vehicleNo = param("vehicleNo");
+    if (vehicleNo) where.vehicleNo = { equals: vehicleNo, mode: "insensitive" };
+
+    const reportDate = param("reportDate");
+    if (reportDate) {
+      const parsed = parseReportDate(reportDate);
+      if (!parsed) {
+        return NextResponse.json({ error: "reportDate must be a valid date" }, { status: 400 });
+      }
+      where.reportDate = formatReportDate(parsed);
+    }
+
+    const area = param("area");
+    if (area) where.area = area;
+
+    const snapshotCode = param("snapshotCode");
+    if (snapshotCode) where.snapshotCode = snapshotCode;
+
+    const targetId = param("targetId");
+    if (targetId) where.targetId = targetId;
+
+    const from = param("from");
+    const to = param("to");
+    if (from || to) {
+      where.occurredAt = {
+        ...(from ? { gte: parseDayParam("from", from) } : {}),
+        // Inclusive: everything before the start of the following day
+        ...(to ? { lt: new Date(parseDayParam("to", to).getTime() + 24 * 60 * 60 * 1000) } : {}),
+      };
+    }
+
+    const requestedLimit = Number(param("limit") ?? DEFAULT_PAGE_SIZE);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(Math.trunc(requestedLimit), 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+    const cursor = param("cursor");
+
+    const events = await prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ occurredAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return NextResponse.json({
+      events: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error("Failed to load audit events", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load audit events";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Single Column Mapping Profile API Route
+ *
+ * - PATCH: Rename a profile or change its mapping; fields left out are kept
+ * - DELETE: Remove a profile
+ *
+ * Requires masterdata:manage.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { parseColumnMappingInput, toColumnMapping } from "@/lib/column-mappings";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    await requireUser(req, "masterdata:manage");
+    const { id } = await params;
+    const body = await req.json();
+
+    const current = await prisma.columnMappingProfile.findUnique({ where: { id } });
+    if (!current) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const name = body.name !== undefined ? String(body.name ?? "").trim() : current.name;
+    if (!name) {
+      return NextResponse.json({ error: "name can't be blank" }, { status: 400 });
+    }
+    const mapping = parseColumnMappingInput(body, toColumnMapping(current));
+
+    const profile = await prisma.columnMappingProfile.update({ where: { id }, data: { name, ...mapping } });
+    return NextResponse.json({ success: true, profile });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json({ error: "A profile with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to update column mapping profile", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to update profile";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    await requireUser(req, "masterdata:manage");
+    const { id } = await params;
+
+    const { count } = await prisma.columnMappingProfile.deleteMany({ where: { id } });
+    if (count === 0) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Failed to delete column mapping profile", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to delete profile";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
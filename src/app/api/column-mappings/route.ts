@@ -0,0 +1,61 @@
+/**
+ * Column Mapping Profiles API Route
+ *
+ * - GET: List the saved profiles, by name
+ * - POST: Save a profile: { name, headerAliases?, columns?, headerRow?, dateFormat?, distanceUnit? }
+ *   headerAliases maps a field (vehicleNo, area, tankerType, transporterName,
+ *   reportDate, tripDistance, distanceUnit, tripCount) to extra header names;
+ *   columns maps a field to a fixed 1-based column position (see column-mappings).
+ *
+ * Listing requires reports:write (profiles are chosen when uploading); saving
+ * requires masterdata:manage.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { parseColumnMappingInput } from "@/lib/column-mappings";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "reports:write");
+
+    const profiles = await prisma.columnMappingProfile.findMany({ orderBy: { name: "asc" } });
+    return NextResponse.json({ profiles });
+  } catch (error: any) {
+    console.error("Failed to list column mapping profiles", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list column mapping profiles";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireUser(req, "masterdata:manage");
+    const body = await req.json();
+
+    const name = String(body.name ?? "").trim();
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    const mapping = parseColumnMappingInput(body);
+
+    const profile = await prisma.columnMappingProfile.create({
+      data: { name, ...mapping, createdBy: admin.email },
+    });
+
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json({ error: "A profile with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to create column mapping profile", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to create profile";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
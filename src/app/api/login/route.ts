@@ -1,19 +1,141 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcrypt';
+import type { User } from '@prisma/client';
 
+import { signMfaChallenge, verifyMfaChallenge, type MfaChallengeClaims } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { signToken } from '@/lib/auth';
+import { issueSession } from '@/lib/sessions';
+import { promoteBootstrapAdmin } from '@/lib/users';
+import { getClientIp } from '@/lib/request-info';
+import {
+  compareWithDummyHash,
+  delayAfterFailure,
+  getAccountLockRemainingMs,
+  getIpBlockRemainingMs,
+  recordAccountFailure,
+  recordIpFailure,
+} from '@/lib/login-throttle';
+import { enableTwoFactor, findTotpStep, isTwoFactorEnforced, verifySecondFactor } from '@/lib/two-factor';
 
 export const dynamic = 'force-dynamic';
 
+function tooManyAttempts(remainingMs: number) {
+  return NextResponse.json(
+    { message: 'Too many failed attempts. Try again later.' },
+    { status: 429, headers: { 'Retry-After': String(Math.ceil(remainingMs / 1000)) } }
+  );
+}
+
+async function completeLogin(user: User, req: NextRequest, extra: Record<string, unknown> = {}) {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date(), failedLoginCount: 0, lockedUntil: null },
+  });
+
+  const { accessToken, refreshToken, expiresIn } = await issueSession(user, req);
+  return NextResponse.json({ accessToken, refreshToken, expiresIn, ...extra }, { status: 200 });
+}
+
+/**
+ * Sign in
+ * - { email, password }: check the password; users with two-factor get
+ *   { mfaRequired, mfaToken } (or { mfaEnrollmentRequired, mfaToken } when it
+ *   is enforced but not set up yet) instead of tokens
+ * - { mfaToken, code } or { mfaToken, recoveryCode }: second step; enrolling
+ *   users confirm their new secret with a code and also get recovery codes
+ */
 export async function POST(req: NextRequest) {
-  const { email, password } = await req.json();
-  const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) return NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
+  const body = await req.json();
+  const ip = getClientIp(req);
+
+  const ipBlockedMs = await getIpBlockRemainingMs(ip);
+  if (ipBlockedMs > 0) return tooManyAttempts(ipBlockedMs);
+
+  if (body?.mfaToken) return verifySecondStep(req, body, ip);
+
+  const rawEmail = String(body?.email ?? '').trim();
+  const email = rawEmail.toLowerCase();
+  const password = String(body?.password ?? '');
+  // Mixed-case emails that couldn't be lowercased (another account has the lowercase one) still match exactly
+  const user = email
+    ? (await prisma.user.findUnique({ where: { email } }))
+      ?? (rawEmail !== email ? await prisma.user.findUnique({ where: { email: rawEmail } }) : null)
+    : null;
+
+  // Unknown emails and locked accounts get the same answer, so neither reveals which accounts exist
+  if (!user || getAccountLockRemainingMs(user) > 0) {
+    if (user) await bcrypt.compare(password, user.password);
+    else await compareWithDummyHash(password);
+    await delayAfterFailure(await recordIpFailure(ip));
+    return NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
+  }
 
   const ok = await bcrypt.compare(password, user.password);
-  if (!ok) return NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
+  if (!ok) {
+    const [accountFailures, ipFailures] = await Promise.all([recordAccountFailure(user), recordIpFailure(ip)]);
+    await delayAfterFailure(Math.max(accountFailures, ipFailures));
+    return NextResponse.json({ message: 'Invalid credentials' }, { status: 401 });
+  }
+
+  if (!user.isActive) return NextResponse.json({ message: 'Account is deactivated' }, { status: 403 });
+
+  if (!user.emailVerifiedAt) {
+    return NextResponse.json(
+      { message: 'Please verify your email address before signing in', emailNotVerified: true },
+      { status: 403 }
+    );
+  }
+
+  const account = await promoteBootstrapAdmin(user);
+
+  if (account.totpEnabledAt || isTwoFactorEnforced(account)) {
+    const enroll = !account.totpEnabledAt;
+    const mfaToken = signMfaChallenge({ sub: account.id, ver: account.tokenVersion, enroll });
+    return NextResponse.json(
+      enroll ? { mfaEnrollmentRequired: true, mfaToken } : { mfaRequired: true, mfaToken },
+      { status: 200 }
+    );
+  }
+
+  return completeLogin(account, req);
+}
+
+async function verifySecondStep(
+  req: NextRequest,
+  body: { mfaToken: string; code?: unknown; recoveryCode?: unknown },
+  ip: string | null
+) {
+  let claims: MfaChallengeClaims;
+  try {
+    claims = verifyMfaChallenge(body.mfaToken);
+  } catch {
+    return NextResponse.json({ message: 'Sign-in attempt expired, please sign in again' }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: claims.sub } });
+  if (!user || !user.isActive || user.tokenVersion !== claims.ver) {
+    return NextResponse.json({ message: 'Sign-in attempt expired, please sign in again' }, { status: 401 });
+  }
+
+  const accountLockedMs = getAccountLockRemainingMs(user);
+  if (accountLockedMs > 0) return tooManyAttempts(accountLockedMs);
+
+  let recoveryCodes: string[] | undefined;
+  let ok: boolean;
+  if (claims.enroll && !user.totpEnabledAt) {
+    // Enrolment: the first code proves the authenticator app holds the pending secret
+    const step = user.totpSecret ? findTotpStep(user.totpSecret, String(body.code ?? '')) : null;
+    ok = step !== null;
+    if (step !== null) recoveryCodes = await enableTwoFactor(user.id, step);
+  } else {
+    ok = await verifySecondFactor(user, body);
+  }
+
+  if (!ok) {
+    const [accountFailures, ipFailures] = await Promise.all([recordAccountFailure(user), recordIpFailure(ip)]);
+    await delayAfterFailure(Math.max(accountFailures, ipFailures));
+    return NextResponse.json({ message: 'Invalid authentication code' }, { status: 401 });
+  }
 
-  const accessToken = signToken({ sub: user.id, role: user.role as 'USER' | 'ADMIN' });
-  return NextResponse.json({ accessToken }, { status: 200 });
+  return completeLogin(user, req, recoveryCodes ? { recoveryCodes } : {});
 }
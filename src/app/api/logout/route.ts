@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireUser } from '@/lib/users';
+import { revokeAllSessions, revokeRefreshToken } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sign out
+ * - { refreshToken }: end this session
+ * - { all: true }: end every session of the bearer-token user ("sign out everywhere")
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { refreshToken, all } = await req.json().catch(() => ({}));
+
+    if (all) {
+      const user = await requireUser(req);
+      if (user.apiKeyId) {
+        return NextResponse.json({ message: 'API keys cannot end user sessions' }, { status: 403 });
+      }
+      await revokeAllSessions(user.id);
+      return NextResponse.json({ success: true }, { status: 200 });
+    }
+
+    if (!refreshToken) {
+      return NextResponse.json({ message: 'refreshToken required' }, { status: 400 });
+    }
+
+    await revokeRefreshToken(refreshToken);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    return NextResponse.json({ message: status < 500 ? e.message : 'Logout failed' }, { status });
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Single Master Data Entry API Route (areas and transporters)
+ *
+ * - PATCH: Rename, change aliases or (de)activate an entry
+ * - DELETE: Remove an unused entry, or merge it into another with { mergeInto }
+ *
+ * Requires masterdata:manage. Renaming and merging rewrite the stored name on
+ * report rows (recorded in the audit log), vehicles and, for areas, users'
+ * assigned areas; the replaced name is kept as an alias so later uploads
+ * spelled the old way still resolve.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAuditContext } from "@/lib/audit";
+import {
+  assertNamesAvailable,
+  countMasterValueUses,
+  findMasterRecords,
+  normalizeAliases,
+  parseMasterDataKind,
+  renameMasterValue,
+} from "@/lib/master-data";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ kind: string; id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await requireUser(req, "masterdata:manage");
+    const { kind: rawKind, id } = await params;
+    const kind = parseMasterDataKind(rawKind);
+    const body = await req.json();
+
+    if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+    }
+
+    const audit = getAuditContext(admin, req);
+    const result = await prisma.$transaction(async (tx) => {
+      const current = (await findMasterRecords(tx, kind)).find((record) => record.id === id);
+      if (!current) {
+        throw Object.assign(new Error("Entry not found"), { statusCode: 404 });
+      }
+
+      const name = body.name !== undefined ? String(body.name ?? "").trim() : current.name;
+      if (!name) {
+        throw Object.assign(new Error("name can't be blank"), { statusCode: 400 });
+      }
+      const renamed = name !== current.name;
+      const aliases = normalizeAliases(
+        [...(body.aliases !== undefined ? body.aliases : current.aliases), ...(renamed ? [current.name] : [])],
+        name
+      );
+
+      await assertNamesAvailable(tx, kind, [name, ...aliases], [id]);
+      const updatedRows = renamed ? await renameMasterValue(tx, kind, [current.name], name, audit) : 0;
+
+      const data = { name, aliases, ...(body.isActive !== undefined ? { isActive: body.isActive } : {}) };
+      const record =
+        kind === "areas" ? await tx.area.update({ where: { id }, data }) : await tx.transporter.update({ where: { id }, data });
+      return { record, updatedRows };
+    }, { timeout: 30_000 });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json({ error: "An entry with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to update master data entry", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to update entry";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const admin = await requireUser(req, "masterdata:manage");
+    const { kind: rawKind, id } = await params;
+    const kind = parseMasterDataKind(rawKind);
+    const body = await req.json().catch(() => ({}));
+    const mergeInto = body?.mergeInto ? String(body.mergeInto) : null;
+
+    if (mergeInto === id) {
+      return NextResponse.json({ error: "An entry can't be merged into itself" }, { status: 400 });
+    }
+
+    const audit = getAuditContext(admin, req);
+    const result = await prisma.$transaction(async (tx) => {
+      const records = await findMasterRecords(tx, kind);
+      const source = records.find((record) => record.id === id);
+      if (!source) {
+        throw Object.assign(new Error("Entry not found"), { statusCode: 404 });
+      }
+
+      let target = null;
+      let updatedRows = 0;
+      if (mergeInto) {
+        target = records.find((record) => record.id === mergeInto);
+        if (!target) {
+          throw Object.assign(new Error("Merge target not found"), { statusCode: 404 });
+        }
+        updatedRows = await renameMasterValue(tx, kind, [source.name], target.name, audit);
+      } else {
+        const uses = await countMasterValueUses(tx, kind, source.name);
+        if (uses > 0) {
+          throw Object.assign(
+            new Error(`"${source.name}" is still used by ${uses} row(s); merge it into another entry or deactivate it`),
+            { statusCode: 409 }
+          );
+        }
+      }
+
+      // Delete first so the source's name and aliases are free to move to the target
+      if (kind === "areas") await tx.area.delete({ where: { id } });
+      else await tx.transporter.delete({ where: { id } });
+
+      if (!target) return { record: null, updatedRows };
+
+      const data = { aliases: normalizeAliases([...target.aliases, source.name, ...source.aliases], target.name) };
+      const record =
+        kind === "areas"
+          ? await tx.area.update({ where: { id: target.id }, data })
+          : await tx.transporter.update({ where: { id: target.id }, data });
+      return { record, updatedRows };
+    }, { timeout: 30_000 });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+    }
+    console.error("Failed to delete master data entry", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to delete entry";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Master Data API Route (areas and transporters)
+ *
+ * - GET: List the entries of /api/master-data/areas or /api/master-data/transporters
+ * - POST: Add an entry with optional aliases
+ *
+ * Listing requires reports:read (the lists feed the upload checks and filters);
+ * adding requires masterdata:manage. Names and aliases must be unique within a
+ * list, compared ignoring case and punctuation.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { assertNamesAvailable, findMasterRecords, normalizeAliases, parseMasterDataKind } from "@/lib/master-data";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ kind: string }> }) {
+  try {
+    await requireUser(req, "reports:read");
+    const kind = parseMasterDataKind((await params).kind);
+
+    const records = await findMasterRecords(prisma, kind);
+    return NextResponse.json({ records });
+  } catch (error: any) {
+    console.error("Failed to list master data", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list master data";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ kind: string }> }) {
+  try {
+    await requireUser(req, "masterdata:manage");
+    const kind = parseMasterDataKind((await params).kind);
+    const body = await req.json();
+
+    const name = String(body.name ?? "").trim();
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    const aliases = normalizeAliases(body.aliases ?? [], name);
+
+    const record = await prisma.$transaction(async (tx) => {
+      await assertNamesAvailable(tx, kind, [name, ...aliases]);
+      const data = { name, aliases };
+      return kind === "areas" ? tx.area.create({ data }) : tx.transporter.create({ data });
+    });
+
+    return NextResponse.json({ success: true, record }, { status: 201 });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json({ error: "An entry with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to create master data entry", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to create entry";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAreaScope, getEffectivePermissions, requireUser } from '@/lib/users';
+import { isTwoFactorEnforced } from '@/lib/two-factor';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req);
+    return NextResponse.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions: getEffectivePermissions(user), // Narrowed to the key's scopes for API keys
+      areas: getAreaScope(user), // null means every area
+      twoFactor: { enabled: !!user.totpEnabledAt, enforced: isTwoFactorEnforced(user) },
+    });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    return NextResponse.json({ message: status < 500 ? e.message : 'Failed to load user' }, { status });
+  }
+}
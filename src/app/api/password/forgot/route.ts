@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/mail';
+import { throttlePasswordResetRequest } from '@/lib/login-throttle';
+import { getClientIp } from '@/lib/request-info';
+import { sendPasswordResetEmail } from '@/lib/user-tokens';
+
+export const dynamic = 'force-dynamic';
+
+// Always answers the same way so the response doesn't reveal which emails have accounts:
+// the email is sent after the response, so known and unknown emails take as long
+export async function POST(req: NextRequest) {
+  try {
+    const { email } = await req.json();
+    const normalizedEmail = String(email ?? '').trim().toLowerCase();
+    if (!normalizedEmail) {
+      return NextResponse.json({ message: 'email required' }, { status: 400 });
+    }
+
+    const blockedMs = await throttlePasswordResetRequest(getClientIp(req), normalizedEmail);
+    if (blockedMs > 0) {
+      return NextResponse.json(
+        { message: 'Too many reset requests. Try again later.' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(blockedMs / 1000)) } }
+      );
+    }
+
+    const appUrl = getAppUrl();
+    after(async () => {
+      try {
+        const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+        if (user && user.isActive) {
+          await sendPasswordResetEmail(user, appUrl);
+        }
+      } catch (e) {
+        console.error('Failed to send password reset email', e);
+      }
+    });
+
+    return NextResponse.json(
+      { message: 'If an account exists for that email, a reset link has been sent' },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error('Password reset request failed', e);
+    return NextResponse.json({ message: 'Password reset request failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+
+import { prisma } from '@/lib/prisma';
+import { revokeAllSessions } from '@/lib/sessions';
+import { consumeUserToken } from '@/lib/user-tokens';
+import { MIN_PASSWORD_LENGTH } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { token, password } = await req.json();
+    if (!token || !password) {
+      return NextResponse.json({ message: 'token & password required' }, { status: 400 });
+    }
+
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumeUserToken(token, 'PASSWORD_RESET');
+    const hash = await bcrypt.hash(password, 12);
+
+    // Following an emailed link also proves the address, and clears any lockout
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hash,
+        failedLoginCount: 0,
+        lockedUntil: null,
+        emailVerifiedAt: new Date(),
+      },
+    });
+    await revokeAllSessions(userId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to reset password', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Password reset failed' }, { status });
+  }
+}
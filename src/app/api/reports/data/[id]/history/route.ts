@@ -0,0 +1,42 @@
+/**
+ * Report Row History API Route
+ *
+ * - GET: The row's current values and its earlier versions, newest first
+ *
+ * Requires reports:read and the row to be in one of the user's areas.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "../../../../../../lib/prisma";
+import { serializeReport } from "../../../../../../lib/report-dates";
+import { serializeReportVersion } from "../../../../../../lib/report-versions";
+import { areaScopeWhere, requireUser } from "../../../../../../lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { id } = await params;
+
+    const report = await prisma.report.findFirst({
+      where: { id, ...areaScopeWhere(user) },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { versions, ...current } = report;
+    return NextResponse.json({
+      report: serializeReport(current),
+      versions: versions.map(serializeReportVersion),
+    });
+  } catch (error: any) {
+    console.error("Failed to load report history", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load report history";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
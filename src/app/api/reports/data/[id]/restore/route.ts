@@ -0,0 +1,89 @@
+/**
+ * Report Row Restore API Route
+ *
+ * - POST: Put an earlier version's values back ({ version })
+ *
+ * Requires reports:write, with both the current row and the restored values
+ * in the user's areas. The restore is itself a change: the current values are
+ * kept as a new version and the audit log records a REPORT_UPDATE.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAuditContext, recordAuditEvents, reportAuditEvent } from "../../../../../../lib/audit";
+import { prisma } from "../../../../../../lib/prisma";
+import { LIVE_REPORTS } from "../../../../../../lib/recycle-bin";
+import { serializeReport } from "../../../../../../lib/report-dates";
+import { archiveReportVersions, NEXT_VERSION } from "../../../../../../lib/report-versions";
+import { areaScopeWhere, assertAreasAllowed, requireUser } from "../../../../../../lib/users";
+import { linkVehicles } from "../../../../../../lib/vehicles";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:write");
+    const { id } = await params;
+    const { version } = await req.json();
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: "version must be a whole number" }, { status: 400 });
+    }
+
+    const existing = await prisma.report.findFirst({ where: { id, ...areaScopeWhere(user), ...LIVE_REPORTS } });
+    if (!existing) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const previous = await prisma.reportVersion.findUnique({
+      where: { reportId_version: { reportId: id, version } },
+    });
+    if (!previous) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    assertAreasAllowed(user, [previous.area]);
+
+    const audit = getAuditContext(user, req);
+    const restored = await prisma.$transaction(async (tx) => {
+      const values = {
+        vehicleNo: previous.vehicleNo,
+        area: previous.area,
+        tankerType: previous.tankerType,
+        transporterName: previous.transporterName,
+        reportDate: previous.reportDate,
+        tripDistance: previous.tripDistance,
+        distanceUnit: previous.distanceUnit,
+        tripCount: previous.tripCount,
+        snapshotCode: previous.snapshotCode,
+      };
+      const vehicleIds = await linkVehicles(tx, [values], user.email);
+      await archiveReportVersions(tx, [existing], user.email);
+      const updated = await tx.report.update({
+        where: { id },
+        data: {
+          ...values,
+          vehicleId: vehicleIds.get(values.vehicleNo),
+          uploadedBy: user.email,
+          uploadedAt: new Date(),
+          ...NEXT_VERSION,
+        },
+      });
+      await recordAuditEvents(tx, [reportAuditEvent(audit, "REPORT_UPDATE", existing, updated)]);
+      return updated;
+    });
+
+    return NextResponse.json({ success: true, record: serializeReport(restored) });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json(
+        { error: "Another report already exists for that version's vehicle and date" },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to restore report version", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to restore report version";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,32 +1,77 @@
 /**
  * Report Data API Route
  *
- * Handles CRUD operations for report data:
+ * Handles CRUD operations for report data. Every handler requires a bearer
+ * token or API key, and users without areas:all only see and modify their own
+ * areas.
  * - GET: Retrieve all reports
- * - POST: Create new report (single or batch upload from XLSX)
+ * - POST: Create a report, upload rows (JSON records, XLSX, CSV or TSV), preview
+ *         an upload (?preview=true) or commit a preview ({ previewId })
  * - PATCH: Update existing report
- * - DELETE: Delete a report
+ * - DELETE: Move one report ({ id }) or several ({ ids }) to the recycle bin
  */
 
 import { randomBytes } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 
+import type { DistanceUnit, Prisma, UploadConflictPolicy } from "@prisma/client";
+
+import { getAuditContext, recordAuditEvents, reportAuditEvent, type AuditContext } from "../../../../lib/audit";
+import {
+  locateHeader,
+  normalizeHeader,
+  toColumnMapping,
+  type ColumnMapping,
+} from "../../../../lib/column-mappings";
+import { resolveMasterData } from "../../../../lib/master-data";
 import { prisma } from "../../../../lib/prisma";
-import { ensureUserByEmail } from "../../../../lib/users";
+import { parseDistance, parseDistanceUnit } from "../../../../lib/distance";
+import { LIVE_REPORTS, schedulePurgeExpiredReports } from "../../../../lib/recycle-bin";
+import {
+  formatReportDate,
+  parseReportDate,
+  parseReportDateWithFormat,
+  serializeReport,
+} from "../../../../lib/report-dates";
+import { archiveReportVersions, NEXT_VERSION } from "../../../../lib/report-versions";
+import { getStorage } from "../../../../lib/storage";
+import {
+  assertPolicyFitsUpload,
+  conflictError,
+  parseConflictPolicy,
+  resolveConflict,
+  type UploadConflict,
+} from "../../../../lib/upload-conflicts";
+import { claimUploadPreview, createUploadPreview, type ParsedUpload } from "../../../../lib/upload-previews";
+import { changedFields, storeUploadFile, type UploadFileFields } from "../../../../lib/upload-snapshots";
+import { areaScopeWhere, assertAreasAllowed, getAreaScope, requireUser } from "../../../../lib/users";
+import { canonicalVehicleNo, linkVehicles } from "../../../../lib/vehicles";
 
 type ParsedRow = {
   vehicleNo: string;
   area: string;
   tankerType: string;
   transporterName: string;
-  reportDate: string; // Format: DD-MM-YYYY
-  tripDistanceKm: string;
+  reportDate: Date; // UTC midnight, see parseReportDate
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
   tripCount: number;
 };
 
+// One sheet of an uploaded file (a CSV/TSV file is a single sheet without a name)
+type SheetTable = {
+  sheet: string | null;
+  table: (string | number | Date)[][]; // Cell values row by row, blank rows included
+  firstRow: number;                    // 0-based sheet row of the first table row, for row numbers
+};
+
 // Constants
-const KM_MATCHER = /[-+]?[0-9]*\.?[0-9]+/;  // Regex to extract numeric distance values
 const UPSERT_BATCH_SIZE = 50;                // Number of records per database transaction
+const UPSERT_BATCH_TIMEOUT_MS = 30_000;      // Upper bound for one batch transaction
+const FAIL_UPLOAD_TIMEOUT_MS = 120_000;      // Upper bound for the single transaction of a FAIL upload
+const SCOPE_CHECK_BATCH_SIZE = 500;          // Number of vehicle/date keys per out-of-scope lookup
+
+type ScopedUploader = { email: string; role: string; areas: string[]; apiKeyId: string | null };
 
 /**
  * Split an array into chunks of specified size
@@ -42,90 +87,28 @@ function chunkArray<T>(items: T[], size: number): T[][] {
 }
 
 /**
- * Normalizes any date input to DD-MM-YYYY format for consistent storage
- * Handles: Date objects, Excel numbers, DD-MM-YYYY, DD/MM/YYYY, YYYY-MM-DD, ISO strings
- * Filters out summary rows (containing " - ")
- * @param input - Date in any format
- * @returns Date string in DD-MM-YYYY format with zero-padded day/month, or null if invalid
+ * Key identifying a report row by its unique vehicle/date pair
  */
-function normaliseDate(input: unknown): string | null {
-  if (!input) return null;
-
-  // Handle Date objects - convert to DD-MM-YYYY
-  if (input instanceof Date && !Number.isNaN(input.valueOf())) {
-    const day = String(input.getDate()).padStart(2, "0");
-    const month = String(input.getMonth() + 1).padStart(2, "0");
-    const year = String(input.getFullYear());
-    return `${day}-${month}-${year}`;
-  }
-
-  const raw = String(input).trim();
-  if (!raw) return null;
-
-  // Summary rows contain a range like "01-07-2025 - 31-07-2025"
-  if (raw.includes(" - ")) {
-    return null;
-  }
-
-  // Excel may serialise dates as numbers - convert to DD-MM-YYYY
-  const asNumber = Number(raw);
-  if (!Number.isNaN(asNumber) && raw.length <= 5) {
-    const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-    const date = new Date(excelEpoch.getTime() + asNumber * 24 * 60 * 60 * 1000);
-    const day = String(date.getUTCDate()).padStart(2, "0");
-    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
-    const year = String(date.getUTCFullYear());
-    return `${day}-${month}-${year}`;
-  }
-
-  // Handle DD-MM-YYYY or DD/MM/YYYY format
-  const segments = raw.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{2,4})$/);
-  if (segments) {
-    const day = segments[1].padStart(2, "0");
-    const month = segments[2].padStart(2, "0");
-    let year = segments[3];
-    if (year.length === 2) {
-      year = Number(year) >= 70 ? `19${year}` : `20${year}`;
-    }
-    return `${day}-${month}-${year}`;
-  }
-
-  // Handle ISO YYYY-MM-DD format - convert to DD-MM-YYYY
-  const isoMatch = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-  if (isoMatch) {
-    const year = isoMatch[1];
-    const month = isoMatch[2].padStart(2, "0");
-    const day = isoMatch[3].padStart(2, "0");
-    return `${day}-${month}-${year}`;
-  }
-
-  // Attempt native parsing as fallback - convert to DD-MM-YYYY
-  const parsed = new Date(raw);
-  if (!Number.isNaN(parsed.valueOf())) {
-    const day = String(parsed.getDate()).padStart(2, "0");
-    const month = String(parsed.getMonth() + 1).padStart(2, "0");
-    const year = String(parsed.getFullYear());
-    return `${day}-${month}-${year}`;
-  }
-
-  return null;
+function rowKey(row: { vehicleNo: string; reportDate: Date }): string {
+  return `${row.vehicleNo}|${row.reportDate.toISOString()}`;
 }
 
 /**
- * Convert distance value to standardized string format
- * Extracts numeric value and formats as "X.XX km"
+ * Convert a distance value and optional unit to the stored number and unit
+ * An explicit unit wins over one written in the value (e.g. "12.5 hr").
  *
  * @param value - Distance value (can be string like "123.45 km" or number)
- * @returns Formatted distance string (e.g., "123.45 km")
+ * @param unit - Explicit unit such as "KM" or "ENGINE_HOURS", if given
+ * @param defaultUnit - Unit to assume when neither says
+ * @returns Numeric distance rounded to 2 decimals and its unit
  */
-function toDistanceString(value: unknown): string {
-  if (value === null || value === undefined) return "0 km";
-  const raw = String(value);
-  const match = raw.match(KM_MATCHER);
-  if (!match) return "0 km";
-  const num = Number.parseFloat(match[0]);
-  if (Number.isNaN(num)) return "0 km";
-  return `${num.toFixed(2)} km`;
+function toTripDistance(
+  value: unknown,
+  unit: unknown,
+  defaultUnit: DistanceUnit = "KM"
+): { tripDistance: number; distanceUnit: DistanceUnit } {
+  const parsed = parseDistance(value, defaultUnit);
+  return { tripDistance: parsed.value, distanceUnit: parseDistanceUnit(unit) ?? parsed.unit };
 }
 
 /**
@@ -142,61 +125,80 @@ function toTripCount(value: unknown): number {
 }
 
 /**
- * Parse all sheets from an Excel workbook
- * @param file - Excel file to parse
- * @returns Array of parsed rows from all sheets
+ * Parse JSON records, skipping those without a valid report date or vehicle number
  */
-async function parseWorkbook(file: File): Promise<ParsedRow[]> {
-  const XLSX = await import("xlsx");
-  const buffer = Buffer.from(await file.arrayBuffer());
-
-  const workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+function parseRecords(rawRecords: Record<string, unknown>[]): ParsedUpload<ParsedRow> {
+  const upload: ParsedUpload<ParsedRow> = { rows: [], sources: [], skipped: [] };
 
-  if (workbook.SheetNames.length === 0) {
-    throw new Error("No worksheets found in uploaded file");
-  }
+  rawRecords.forEach((r, index) => {
+    const rowNumber = index + 1;
+    const reportDate = parseReportDate(r.reportDate);
+    if (!reportDate) {
+      const reason = r.reportDate ? `Invalid report date "${String(r.reportDate)}"` : "Missing report date";
+      upload.skipped.push({ sheet: null, rowNumber, reason });
+      return;
+    }
+    const vehicleNo = canonicalVehicleNo(r.vehicleNo);
+    if (!vehicleNo) {
+      upload.skipped.push({ sheet: null, rowNumber, reason: "Missing vehicle number" });
+      return;
+    }
 
-  const allRecords: ParsedRow[] = [];
+    upload.rows.push({
+      vehicleNo,
+      area: String(r.area ?? "").trim(),
+      tankerType: String(r.tankerType ?? "").trim(),
+      transporterName: String(r.transporterName ?? "").trim(),
+      reportDate,
+      ...toTripDistance(r.tripDistance ?? r.tripDistanceKm, r.distanceUnit),
+      tripCount: toTripCount(r.tripCount),
+    });
+    upload.sources.push({ sheet: null, rowNumber });
+  });
 
-  // Iterate through all sheets in the workbook
-  for (const sheetName of workbook.SheetNames) {
-    const worksheet = workbook.Sheets[sheetName];
-    if (!worksheet) continue;
+  return upload;
+}
 
-    const table = XLSX.utils.sheet_to_json<(string | number | Date)[]>(worksheet, {
-      header: 1,
-      raw: false,
-      defval: "",
-      blankrows: false,
-    });
-  
-  const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
-  const findColumn = (headers: string[], candidates: string[]) => {
-    for (const candidate of candidates) {
-      const idx = headers.findIndex((header) => normalizeHeader(header) === normalizeHeader(candidate));
-      if (idx !== -1) return idx;
+/**
+ * Parse the rows of one sheet (or CSV/TSV file) into an upload
+ * Finds the header row (see column-mappings), carries the vehicle details of
+ * grouped summary rows ("01-07-2025 - 31-07-2025") down to the rows below
+ * them, and records every data row it can't use in upload.skipped.
+ *
+ * @param mapping - Column mapping profile chosen for the upload, or null for the built-in headers
+ */
+function parseTable(
+  { sheet, table, firstRow }: SheetTable,
+  mapping: ColumnMapping | null,
+  upload: ParsedUpload<ParsedRow>
+) {
+  const rows = table.map((rawRow) => rawRow.map((value) => String(value ?? "").trim()));
+
+  const header = locateHeader(rows, firstRow, mapping);
+  if (!header) {
+    if (rows.some((row) => row.some((cell) => cell !== ""))) {
+      upload.skipped.push({
+        sheet,
+        rowNumber: null,
+        reason: mapping
+          ? "No header row matching the column mapping profile"
+          : "No header row with Vehicle No and Report Date columns",
+      });
     }
-    return -1;
-  };
+    return;
+  }
+  const { columns, defaultDistanceUnit } = header;
 
   const getCell = (row: string[], index: number) => {
     if (index < 0 || index >= row.length) return "";
     return row[index];
   };
 
-  const records: ParsedRow[] = [];
-
-  let headerRow: string[] | null = null;
-  let headerIndex = -1;
-  let columnIndex: {
-    vehicle: number;
-    area: number;
-    tankerType: number;
-    transporter: number;
-    reportDate: number;
-    distance: number;
-    tripCount: number;
-  } | null = null;
+  const parseDate = (value: string) =>
+    (mapping?.dateFormat ? parseReportDateWithFormat(value, mapping.dateFormat) : null) ?? parseReportDate(value);
+
+  // Grouped sections repeat the header row; their date cell matches the header's
+  const dateHeader = header.index >= 0 ? normalizeHeader(getCell(rows[header.index], columns.reportDate)) : "";
 
   let context: {
     vehicleNo: string;
@@ -205,165 +207,380 @@ async function parseWorkbook(file: File): Promise<ParsedRow[]> {
     transporterName: string;
   } | null = null;
 
-  for (let rowIndex = 0; rowIndex < table.length; rowIndex += 1) {
-    const rawRow = table[rowIndex];
-    const row = rawRow.map((value) => String(value ?? "").trim());
-
-    if (!headerRow) {
-      const joined = row.map((cell) => normalizeHeader(cell));
-      if (joined.includes(normalizeHeader("Vehicle No")) && joined.includes(normalizeHeader("Report Date"))) {
-        headerRow = row;
-        headerIndex = rowIndex;
-        columnIndex = {
-          vehicle: findColumn(row, ["Vehicle No.", "Vehicle No", "Vehicle Number"]),
-          area: findColumn(row, ["Area"]),
-          tankerType: findColumn(row, ["Tanker Type", "Type"]),
-          transporter: findColumn(row, ["Transporter Name", "Transporter"]),
-          reportDate: findColumn(row, ["Report Date", "Date"]),
-          distance: findColumn(row, ["Trip Distance / Engine Hr", "Trip Distance / Engine", "Trip Distance", "Distance"]),
-          tripCount: findColumn(row, ["Trip Count", "Trips", "Trip"]),
-        };
-
-        // If "Trip Count" is not found, fall back to last column.
-        if (columnIndex.tripCount === -1) {
-          columnIndex.tripCount = row.length - 1;
-        }
-        continue;
-      }
-      continue;
-    }
-
-    if (rowIndex <= headerIndex) {
-      continue;
-    }
+  for (let rowIndex = header.index + 1; rowIndex < rows.length; rowIndex += 1) {
+    const row = rows[rowIndex];
+    const rowNumber = firstRow + rowIndex + 1;
 
     if (row.every((cell) => cell === "")) {
       continue;
     }
 
-    if (!columnIndex) {
-      continue;
-    }
-
-    const reportDateRaw = columnIndex.reportDate !== -1 ? row[columnIndex.reportDate] : "";
+    const reportDateRaw = getCell(row, columns.reportDate);
 
     // Skip repeated header rows that appear in grouped sections
-    if (normalizeHeader(reportDateRaw) === normalizeHeader("Report Date")) {
+    if (dateHeader && normalizeHeader(reportDateRaw) === dateHeader) {
       continue;
     }
 
-    const hasRange = typeof reportDateRaw === "string" && reportDateRaw.includes(" - ");
+    const hasRange = reportDateRaw.includes(" - ");
     if (hasRange) {
       context = {
-        vehicleNo: getCell(row, columnIndex.vehicle),
-        area: getCell(row, columnIndex.area),
-        tankerType: getCell(row, columnIndex.tankerType),
-        transporterName: getCell(row, columnIndex.transporter),
+        vehicleNo: getCell(row, columns.vehicleNo),
+        area: getCell(row, columns.area),
+        tankerType: getCell(row, columns.tankerType),
+        transporterName: getCell(row, columns.transporterName),
       };
 
       // Summary rows sometimes include totals for distance/trips; ignore the actual numerics.
       continue;
     }
 
-    const reportDate = normaliseDate(reportDateRaw);
+    const reportDate = parseDate(reportDateRaw);
     if (!reportDate) {
+      const reason = reportDateRaw ? `Invalid report date "${reportDateRaw}"` : "Missing report date";
+      upload.skipped.push({ sheet, rowNumber, reason });
       continue;
     }
 
-    const vehicleNo = getCell(row, columnIndex.vehicle) || context?.vehicleNo || "";
-    const area = getCell(row, columnIndex.area) || context?.area || "";
-    const tankerType = getCell(row, columnIndex.tankerType) || context?.tankerType || "";
-    const transporterName = getCell(row, columnIndex.transporter) || context?.transporterName || "";
+    const vehicleNo = canonicalVehicleNo(getCell(row, columns.vehicleNo) || context?.vehicleNo);
+    const area = getCell(row, columns.area) || context?.area || "";
+    const tankerType = getCell(row, columns.tankerType) || context?.tankerType || "";
+    const transporterName = getCell(row, columns.transporterName) || context?.transporterName || "";
 
     if (!vehicleNo) {
+      upload.skipped.push({ sheet, rowNumber, reason: "Missing vehicle number" });
       continue;
     }
 
-    records.push({
+    upload.rows.push({
       vehicleNo,
       area,
       tankerType,
       transporterName,
       reportDate,
-      tripDistanceKm: toDistanceString(getCell(row, columnIndex.distance)),
-      tripCount: toTripCount(getCell(row, columnIndex.tripCount)),
+      ...toTripDistance(getCell(row, columns.tripDistance), getCell(row, columns.distanceUnit), defaultDistanceUnit),
+      tripCount: toTripCount(getCell(row, columns.tripCount)),
     });
+    upload.sources.push({ sheet, rowNumber });
+  }
+}
+
+/**
+ * Parse every sheet of an uploaded file
+ * @returns Parsed rows with the sheet and row each came from, and the rows
+ *          that were skipped with the reason
+ */
+function parseTables(tables: SheetTable[], mapping: ColumnMapping | null): ParsedUpload<ParsedRow> {
+  const upload: ParsedUpload<ParsedRow> = { rows: [], sources: [], skipped: [] };
+  for (const table of tables) {
+    parseTable(table, mapping, upload);
   }
+  return upload;
+}
+
+/**
+ * Read all sheets from an Excel workbook
+ * @param buffer - Contents of the Excel file
+ */
+async function readWorkbook(buffer: Buffer): Promise<SheetTable[]> {
+  const XLSX = await import("xlsx");
+
+  const workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
 
-    // Add records from this sheet to the collection
-    allRecords.push(...records);
+  if (workbook.SheetNames.length === 0) {
+    throw new Error("No worksheets found in uploaded file");
   }
 
-  return allRecords;
+  const tables: SheetTable[] = [];
+
+  // Iterate through all sheets in the workbook
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) continue;
+
+    const table = XLSX.utils.sheet_to_json<(string | number | Date)[]>(worksheet, {
+      header: 1,
+      raw: false,
+      defval: "",
+      blankrows: true, // Keeps row numbers in line with the sheet; blank rows are skipped
+    });
+    const firstRow = worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]).s.r : 0;
+
+    tables.push({ sheet: sheetName, table, firstRow });
+  }
+
+  return tables;
 }
 
-export async function GET(_req: NextRequest) {
-  const records = await prisma.report.findMany({
-    orderBy: [
-      { vehicleNo: "asc" },
-      { reportDate: "asc" },
-    ],
+/**
+ * Read a CSV or TSV file, laid out like a single workbook sheet
+ * @param buffer - Contents of the file, UTF-8 (a byte order mark is ignored)
+ * @param format - "tsv" for tabs; the separator of a CSV file is detected (",", ";"...)
+ */
+async function readDelimited(buffer: Buffer, format: "csv" | "tsv"): Promise<SheetTable[]> {
+  const { default: Papa } = await import("papaparse");
+
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const { data } = Papa.parse(text, {
+    delimiter: format === "tsv" ? "\t" : "",
+    skipEmptyLines: false, // Keeps row numbers in line with the file; blank rows are skipped
+  });
+
+  return [{ sheet: null, table: data as string[][], firstRow: 0 }];
+}
+
+/**
+ * Find the saved profile that reads the most rows from a file, when that is
+ * more than the mapping the upload used
+ * @param usedProfileId - Profile the upload used, null for the built-in headers
+ * @param usedRowCount - Rows read with that mapping
+ */
+async function suggestMappingProfile(tables: SheetTable[], usedProfileId: string | null, usedRowCount: number) {
+  const profiles = await prisma.columnMappingProfile.findMany({ orderBy: { name: "asc" } });
+
+  let suggested: { id: string; name: string; rowCount: number } | null = null;
+  for (const profile of profiles) {
+    if (profile.id === usedProfileId) continue;
+    const rowCount = parseTables(tables, toColumnMapping(profile)).rows.length;
+    if (rowCount > (suggested?.rowCount ?? usedRowCount)) {
+      suggested = { id: profile.id, name: profile.name, rowCount };
+    }
+  }
+  return suggested;
+}
+
+/**
+ * Tell how an uploaded file is laid out, by extension first and then content type
+ * (browsers often send CSV files as application/vnd.ms-excel)
+ */
+function uploadFormat(file: File): "xlsx" | "csv" | "tsv" {
+  const name = (file.name ?? "").toLowerCase();
+  const type = (file.type ?? "").toLowerCase();
+  if (name.endsWith(".csv")) return "csv";
+  if (name.endsWith(".tsv") || name.endsWith(".tab")) return "tsv";
+  if (type.includes("text/csv") || type.includes("application/csv")) return "csv";
+  if (type.includes("text/tab-separated-values")) return "tsv";
+  return "xlsx";
+}
+
+/**
+ * Keep only the last row for each vehicle/date, which is what saving them in
+ * order would leave; the earlier ones are reported as skipped
+ */
+function dropRepeatedRows(upload: ParsedUpload<ParsedRow>): ParsedUpload<ParsedRow> {
+  const lastIndex = new Map(upload.rows.map((row, index) => [rowKey(row), index]));
+  const result: ParsedUpload<ParsedRow> = { rows: [], sources: [], skipped: [...upload.skipped] };
+
+  upload.rows.forEach((row, index) => {
+    const last = lastIndex.get(rowKey(row))!;
+    if (last !== index) {
+      const { sheet, rowNumber } = upload.sources[last];
+      result.skipped.push({
+        ...upload.sources[index],
+        reason: `Same vehicle and date as ${sheet ? `${sheet} ` : ""}row ${rowNumber}, which is used instead`,
+      });
+      return;
+    }
+    result.rows.push(row);
+    result.sources.push(upload.sources[index]);
   });
 
-  return NextResponse.json(records);
+  return result;
+}
+
+/**
+ * Reject uploads from area-scoped users that would overwrite rows in other areas
+ * (the vehicle/date key is shared across areas, so an upsert could replace them)
+ */
+async function assertNoOutOfScopeOverwrites(uploader: ScopedUploader, rows: ParsedRow[]) {
+  const scope = getAreaScope(uploader);
+  if (!scope) return;
+
+  for (const batch of chunkArray(rows, SCOPE_CHECK_BATCH_SIZE)) {
+    const clash = await prisma.report.findFirst({
+      where: {
+        area: { notIn: scope },
+        OR: batch.map((row) => ({ vehicleNo: row.vehicleNo, reportDate: row.reportDate })),
+      },
+      select: { vehicleNo: true, reportDate: true, area: true },
+    });
+
+    if (clash) {
+      throw Object.assign(
+        new Error(`Upload would overwrite ${clash.vehicleNo} on ${formatReportDate(clash.reportDate)} in area ${clash.area}`),
+        { statusCode: 403 }
+      );
+    }
+  }
+}
+
+/**
+ * Check that the uploader may write every row of an upload
+ */
+async function assertUploadAllowed(uploader: ScopedUploader, rows: ParsedRow[]) {
+  assertAreasAllowed(uploader, rows.map((row) => row.area));
+  await assertNoOutOfScopeOverwrites(uploader, rows);
+}
+
+/**
+ * Check and save the rows of an upload
+ * A stored file is removed again if no rows get saved.
+ */
+async function saveUpload(
+  rows: ParsedRow[],
+  uploader: ScopedUploader,
+  snapshotCode: string,
+  file: UploadFileFields | null,
+  conflictPolicy: UploadConflictPolicy,
+  audit: AuditContext
+) {
+  try {
+    await assertUploadAllowed(uploader, rows);
+    return await persistRows(rows, uploader, snapshotCode, file, conflictPolicy, audit);
+  } catch (error) {
+    if (file) {
+      const snapshot = await prisma.uploadSnapshot.findUnique({ where: { snapshotCode }, select: { id: true } });
+      if (!snapshot) {
+        await getStorage().delete(file.fileKey).catch((cleanupError) => {
+          console.error("Failed to remove stored upload file", cleanupError);
+        });
+      }
+    }
+    throw error;
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:read");
+
+    const records = await prisma.report.findMany({
+      where: { ...areaScopeWhere(user), ...LIVE_REPORTS },
+      orderBy: [
+        { vehicleNo: "asc" },
+        { reportDate: "asc" },
+      ],
+    });
+
+    return NextResponse.json(records.map(serializeReport));
+  } catch (error: any) {
+    console.error("Failed to load reports", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load reports";
+    return NextResponse.json({ error: message }, { status });
+  }
 }
 
 export async function POST(req: NextRequest) {
   try {
+    const uploader = await requireUser(req, "reports:write");
+    const uploaderEmail = uploader.email;
+    const audit = getAuditContext(uploader, req);
     const contentType = req.headers.get("content-type") ?? "";
+    const preview = req.nextUrl.searchParams.get("preview") === "true";
 
     if (contentType.includes("application/json")) {
       const payload = await req.json();
-      const { records: rawRecords, record: singleRecord, uploadedBy } = payload;
-      if (!uploadedBy) {
-        return NextResponse.json({ error: "uploadedBy is required" }, { status: 400 });
+      const { records: rawRecords, record: singleRecord, previewId } = payload;
+
+      if (previewId) {
+        const claimed = await claimUploadPreview(uploader, String(previewId));
+        const saved = await saveUpload(
+          claimed.rows,
+          uploader,
+          claimed.snapshotCode,
+          claimed.file,
+          claimed.conflictPolicy,
+          audit
+        );
+        return NextResponse.json({
+          success: true,
+          snapshotCode: claimed.snapshotCode,
+          recordCount: saved.written, // Rows actually saved; unchanged and kept rows aren't
+          parsedCount: claimed.rows.length,
+          records: saved.records,
+          conflictPolicy: claimed.conflictPolicy,
+          conflicts: saved.conflicts,
+        });
       }
 
-      const uploaderEmail = await ensureUserByEmail(uploadedBy);
-
       if (singleRecord) {
-        const normalizedRecord: ParsedRow = {
-          vehicleNo: String(singleRecord.vehicleNo ?? "").trim(),
+        if (preview) {
+          return NextResponse.json({ error: "Preview is only available for uploads" }, { status: 400 });
+        }
+        const reportDate = parseReportDate(singleRecord.reportDate);
+        if (!reportDate) {
+          return NextResponse.json({ error: "Valid reportDate is required" }, { status: 400 });
+        }
+
+        const [normalizedRecord] = await resolveMasterData<ParsedRow>([{
+          vehicleNo: canonicalVehicleNo(singleRecord.vehicleNo),
           area: String(singleRecord.area ?? "").trim(),
           tankerType: String(singleRecord.tankerType ?? "").trim(),
           transporterName: String(singleRecord.transporterName ?? "").trim(),
-          reportDate: normaliseDate(singleRecord.reportDate) ?? "",
-          tripDistanceKm: toDistanceString(singleRecord.tripDistanceKm),
+          reportDate,
+          // Older clients send the distance as tripDistanceKm
+          ...toTripDistance(singleRecord.tripDistance ?? singleRecord.tripDistanceKm, singleRecord.distanceUnit),
           tripCount: toTripCount(singleRecord.tripCount),
-        };
+        }]);
 
         if (!normalizedRecord.vehicleNo) {
           return NextResponse.json({ error: "vehicleNo is required" }, { status: 400 });
         }
 
-        if (!normalizedRecord.reportDate) {
-          return NextResponse.json({ error: "Valid reportDate is required" }, { status: 400 });
+        assertAreasAllowed(uploader, [normalizedRecord.area]);
+
+        // Rows in the recycle bin keep their vehicle/date key, so they block a new row too
+        const clash = await prisma.report.findUnique({
+          where: {
+            vehicleNo_reportDate: { vehicleNo: normalizedRecord.vehicleNo, reportDate: normalizedRecord.reportDate },
+          },
+          select: { id: true, area: true, deletedAt: true },
+        });
+        if (clash) {
+          const scope = getAreaScope(uploader);
+          return NextResponse.json(
+            {
+              error: clash.deletedAt
+                ? "A report for the selected vehicle and date is in the recycle bin; restore it from there instead"
+                : "A report already exists for the selected vehicle and date",
+              inRecycleBin: !!clash.deletedAt,
+              // The binned row to restore, when the user may see it
+              recycleBinId: clash.deletedAt && (!scope || scope.includes(clash.area)) ? clash.id : undefined,
+            },
+            { status: 409 }
+          );
         }
 
         const snapshotCode = `manual-${randomBytes(8).toString("hex")}`;
         const now = new Date();
 
-        const [, created] = await prisma.$transaction([
-          prisma.uploadSnapshot.create({
+        const created = await prisma.$transaction(async (tx) => {
+          await tx.uploadSnapshot.create({
             data: {
               snapshotCode,
               uploadedBy: uploaderEmail,
               recordCount: 1,
               fileName: "manual-entry",
+              apiKeyId: uploader.apiKeyId,
               uploadedAt: now,
             },
-          }),
-          prisma.report.create({
+          });
+          const vehicleIds = await linkVehicles(tx, [normalizedRecord], uploaderEmail);
+          const report = await tx.report.create({
             data: {
               ...normalizedRecord,
+              vehicleId: vehicleIds.get(normalizedRecord.vehicleNo),
               snapshotCode,
               uploadedBy: uploaderEmail,
               uploadedAt: now,
             },
-          }),
-        ]);
+          });
+          await recordAuditEvents(tx, [reportAuditEvent(audit, "REPORT_CREATE", null, report)]);
+          return report;
+        });
 
-        return NextResponse.json({ success: true, record: created });
+        return NextResponse.json({ success: true, record: serializeReport(created) });
       }
 
       if (!Array.isArray(rawRecords) || rawRecords.length === 0) {
@@ -371,138 +588,269 @@ export async function POST(req: NextRequest) {
       }
 
       const snapshotCode = randomBytes(16).toString("hex");
+      const conflictPolicy = parseConflictPolicy(payload.conflictPolicy);
+
+      const upload = dropRepeatedRows(parseRecords(rawRecords));
+
+      if (upload.rows.length === 0) {
+        return NextResponse.json({ error: "No valid rows to save", skipped: upload.skipped }, { status: 400 });
+      }
+
+      const rows = await resolveMasterData(upload.rows);
 
-      const rows: ParsedRow[] = rawRecords
-        .map((r: ParsedRow) => ({
-          ...r,
-          reportDate: normaliseDate(r.reportDate) ?? "",
-          tripDistanceKm: toDistanceString(r.tripDistanceKm),
-          tripCount: toTripCount(r.tripCount),
-        }))
-        .filter((r) => r.reportDate);
-
-      if (rows.length === 0) {
-        return NextResponse.json({ error: "No valid rows to save" }, { status: 400 });
+      if (preview) {
+        await assertUploadAllowed(uploader, rows);
+        return NextResponse.json(
+          await createUploadPreview(uploader, { ...upload, rows }, snapshotCode, null, conflictPolicy)
+        );
       }
 
-      const savedRows = await persistRows(rows, uploaderEmail, snapshotCode, null);
+      const saved = await saveUpload(rows, uploader, snapshotCode, null, conflictPolicy, audit);
       return NextResponse.json({
         success: true,
         snapshotCode,
-        recordCount: rows.length,
-        records: savedRows,
+        recordCount: saved.written,
+        parsedCount: rows.length,
+        records: saved.records,
+        skipped: upload.skipped,
+        conflictPolicy,
+        conflicts: saved.conflicts,
       });
     }
 
     const formData = await req.formData();
     const file = formData.get("file");
-    const uploadedBy = formData.get("uploadedBy");
 
     if (!(file instanceof File)) {
-      return NextResponse.json({ error: "Missing XLSX file" }, { status: 400 });
+      return NextResponse.json({ error: "Missing XLSX, CSV or TSV file" }, { status: 400 });
     }
 
-    if (typeof uploadedBy !== "string" || !uploadedBy.trim()) {
-      return NextResponse.json({ error: "uploadedBy is required" }, { status: 400 });
+    const mappingProfileId = String(formData.get("mappingProfileId") ?? "").trim();
+    const mappingProfile = mappingProfileId
+      ? await prisma.columnMappingProfile.findUnique({ where: { id: mappingProfileId } })
+      : null;
+    if (mappingProfileId && !mappingProfile) {
+      return NextResponse.json({ error: "Unknown column mapping profile" }, { status: 400 });
     }
+    const conflictPolicy = parseConflictPolicy(formData.get("conflictPolicy"));
+
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const format = uploadFormat(file);
+    const tables = format === "xlsx" ? await readWorkbook(fileBuffer) : await readDelimited(fileBuffer, format);
+    const parsed = parseTables(tables, mappingProfile ? toColumnMapping(mappingProfile) : null);
+    const upload = dropRepeatedRows(parsed);
+
+    // Returned with the upload so a better-fitting profile can be picked next time
+    const mapping = {
+      mappingProfile: mappingProfile ? { id: mappingProfile.id, name: mappingProfile.name } : null,
+      suggestedProfile: await suggestMappingProfile(tables, mappingProfile?.id ?? null, parsed.rows.length),
+    };
 
-    const parsedRows = await parseWorkbook(file);
-
-    if (parsedRows.length === 0) {
-      return NextResponse.json({ error: "No data rows detected in worksheet" }, { status: 400 });
+    if (upload.rows.length === 0) {
+      return NextResponse.json(
+        { error: "No data rows detected in worksheet", skipped: upload.skipped, ...mapping },
+        { status: 400 }
+      );
     }
 
+    const parsedRows = await resolveMasterData(upload.rows);
+
     const snapshotCode = randomBytes(16).toString("hex");
     const fileName = file.name ?? "uploaded.xlsx";
 
-    const uploaderEmail = await ensureUserByEmail(uploadedBy);
-    const savedRows = await persistRows(parsedRows, uploaderEmail, snapshotCode, fileName);
+    // Keep the file as received; it is removed again unless the rows are saved or previewed
+    const storedFile = await storeUploadFile(snapshotCode, fileName, format, fileBuffer);
+
+    if (preview) {
+      try {
+        await assertUploadAllowed(uploader, parsedRows);
+        const previewed = await createUploadPreview(
+          uploader,
+          { ...upload, rows: parsedRows },
+          snapshotCode,
+          storedFile,
+          conflictPolicy
+        );
+        return NextResponse.json({ ...previewed, ...mapping });
+      } catch (error) {
+        await getStorage().delete(storedFile.fileKey).catch((cleanupError) => {
+          console.error("Failed to remove stored upload file", cleanupError);
+        });
+        throw error;
+      }
+    }
+
+    const saved = await saveUpload(parsedRows, uploader, snapshotCode, storedFile, conflictPolicy, audit);
     return NextResponse.json({
       success: true,
       snapshotCode,
-      recordCount: parsedRows.length,
-      records: savedRows,
+      recordCount: saved.written,
+      parsedCount: parsedRows.length,
+      records: saved.records,
+      skipped: upload.skipped,
+      ...mapping,
+      conflictPolicy,
+      conflicts: saved.conflicts,
     });
   } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json(
+        { error: "A report already exists for the selected vehicle and date (it may be in the recycle bin)" },
+        { status: 409 }
+      );
+    }
     console.error("Failed to save data", error);
     const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
-    const message = status === 400 && error?.message ? error.message : "Failed to save data";
-    return NextResponse.json({ error: message }, { status });
+    const message = status < 500 && error?.message ? error.message : "Failed to save data";
+    return NextResponse.json(
+      { error: message, unknownValues: error?.unknownValues, conflicts: error?.conflicts },
+      { status }
+    );
   }
 }
 
 export async function PATCH(req: NextRequest) {
   try {
-    const { id, record, updatedBy } = await req.json();
+    const updater = await requireUser(req, "reports:write");
+    const { id, record } = await req.json();
 
     if (!id || !record) {
       return NextResponse.json({ error: "id and record are required" }, { status: 400 });
     }
 
-    const existing = await prisma.report.findUnique({ where: { id } });
+    const existing = await prisma.report.findFirst({ where: { id, ...areaScopeWhere(updater), ...LIVE_REPORTS } });
     if (!existing) {
       return NextResponse.json({ error: "Report not found" }, { status: 404 });
     }
 
-    const updaterEmail = updatedBy ? await ensureUserByEmail(updatedBy) : existing.uploadedBy;
-    const nextReportDate = normaliseDate(record.reportDate ?? existing.reportDate);
+    const nextReportDate = record.reportDate !== undefined ? parseReportDate(record.reportDate) : existing.reportDate;
     if (!nextReportDate) {
       return NextResponse.json({ error: "Valid reportDate is required" }, { status: 400 });
     }
 
-    const updateData = {
-      vehicleNo: String(record.vehicleNo ?? existing.vehicleNo).trim(),
+    const [updateData] = await resolveMasterData([{
+      vehicleNo: canonicalVehicleNo(record.vehicleNo ?? existing.vehicleNo),
       area: String(record.area ?? existing.area).trim(),
       tankerType: String(record.tankerType ?? existing.tankerType).trim(),
       transporterName: String(record.transporterName ?? existing.transporterName).trim(),
       reportDate: nextReportDate,
-      tripDistanceKm: toDistanceString(record.tripDistanceKm ?? existing.tripDistanceKm),
+      ...toTripDistance(
+        record.tripDistance ?? record.tripDistanceKm ?? existing.tripDistance,
+        record.distanceUnit,
+        existing.distanceUnit
+      ),
       tripCount: toTripCount(record.tripCount ?? existing.tripCount),
-      uploadedBy: updaterEmail,
+      uploadedBy: updater.email,
       uploadedAt: new Date(),
-    };
+    }], existing);
+
+    assertAreasAllowed(updater, [updateData.area]);
+
+    const unchanged = updateData.vehicleNo === existing.vehicleNo
+      && updateData.reportDate.getTime() === existing.reportDate.getTime()
+      && changedFields(existing, updateData).length === 0;
+    if (unchanged) {
+      return NextResponse.json({ success: true, record: serializeReport(existing) });
+    }
 
-    const updatedRecord = await prisma.report.update({
-      where: { id },
-      data: updateData,
+    const audit = getAuditContext(updater, req);
+    const updatedRecord = await prisma.$transaction(async (tx) => {
+      const vehicleIds = await linkVehicles(tx, [updateData], updater.email);
+      await archiveReportVersions(tx, [existing], updater.email);
+      const updated = await tx.report.update({
+        where: { id },
+        data: { ...updateData, vehicleId: vehicleIds.get(updateData.vehicleNo), ...NEXT_VERSION },
+      });
+      await recordAuditEvents(tx, [reportAuditEvent(audit, "REPORT_UPDATE", existing, updated)]);
+      return updated;
     });
 
-    return NextResponse.json({ success: true, record: updatedRecord });
+    return NextResponse.json({ success: true, record: serializeReport(updatedRecord) });
   } catch (error: any) {
     if (error?.code === "P2002") {
       return NextResponse.json(
-        { error: "A report already exists for the selected vehicle and date" },
+        { error: "A report already exists for the selected vehicle and date (it may be in the recycle bin)" },
         { status: 409 }
       );
     }
     console.error("Failed to update report", error);
     const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
-    const message = status === 400 && error?.message ? error.message : "Failed to update report";
-    return NextResponse.json({ error: message }, { status });
+    const message = status < 500 && error?.message ? error.message : "Failed to update report";
+    return NextResponse.json({ error: message, unknownValues: error?.unknownValues }, { status });
   }
 }
 
 export async function DELETE(req: NextRequest) {
   try {
-    const { id } = await req.json();
-    if (!id) {
-      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    const user = await requireUser(req, "reports:delete");
+    const { id, ids } = await req.json();
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json({ error: "ids must be a non-empty array" }, { status: 400 });
+    }
+    if (!id && !ids) {
+      return NextResponse.json({ error: "id or ids is required" }, { status: 400 });
     }
+    const targetIds: string[] = ids ? ids.map(String) : [String(id)];
 
-    const deleted = await prisma.report.delete({ where: { id } });
-    return NextResponse.json({ success: true, record: deleted });
-  } catch (error: any) {
-    if (error?.code === "P2025") {
+    const existing = await prisma.report.findMany({
+      where: { id: { in: targetIds }, ...areaScopeWhere(user), ...LIVE_REPORTS },
+    });
+    if (existing.length === 0) {
       return NextResponse.json({ error: "Report not found" }, { status: 404 });
     }
+
+    const audit = getAuditContext(user, req);
+    const deletedAt = new Date();
+    await prisma.$transaction(async (tx) => {
+      await tx.report.updateMany({
+        where: { id: { in: existing.map((report) => report.id) } },
+        data: { deletedAt, deletedBy: user.email },
+      });
+      await recordAuditEvents(tx, existing.map((report) => reportAuditEvent(audit, "REPORT_DELETE", report, null)));
+    });
+    schedulePurgeExpiredReports();
+
+    const deleted = existing.map((report) => serializeReport({ ...report, deletedAt, deletedBy: user.email }));
+    if (!ids) {
+      return NextResponse.json({ success: true, record: deleted[0] });
+    }
+    const found = new Set(existing.map((report) => report.id));
+    return NextResponse.json({
+      success: true,
+      deletedCount: deleted.length,
+      records: deleted,
+      notFound: targetIds.filter((targetId) => !found.has(targetId)),
+    });
+  } catch (error: any) {
     console.error("Failed to delete report", error);
     const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
-    const message = status === 400 && error?.message ? error.message : "Failed to delete report";
+    const message = status < 500 && error?.message ? error.message : "Failed to delete report";
     return NextResponse.json({ error: message }, { status });
   }
 }
 
-async function persistRows(rows: ParsedRow[], uploaderEmail: string, snapshotCode: string, fileName: string | null) {
+/**
+ * Save the rows of an upload under its snapshot
+ * Existing rows for the same vehicle and date are resolved with the upload's
+ * conflict policy (see upload-conflicts); rows in the recycle bin come back
+ * with the uploaded values. Replaced values are archived as versions and every
+ * write is audited. Unknown vehicles are registered.
+ * @returns The caller's rows after the upload, the conflicts it met and the
+ *          number of rows written (the snapshot's recordCount)
+ * @throws Error with statusCode 409 listing the conflicts under FAIL; nothing is saved then,
+ *         and 413 when the upload has too many rows for FAIL
+ */
+async function persistRows(
+  rows: ParsedRow[],
+  uploader: ScopedUploader,
+  snapshotCode: string,
+  file: UploadFileFields | null,
+  conflictPolicy: UploadConflictPolicy,
+  audit: AuditContext
+) {
+  assertPolicyFitsUpload(conflictPolicy, rows.length);
+
+  const uploaderEmail = uploader.email;
   const now = new Date();
   const dataRows = rows.map((row) => ({
     ...row,
@@ -513,51 +861,58 @@ async function persistRows(rows: ParsedRow[], uploaderEmail: string, snapshotCod
   const batches = chunkArray(dataRows, UPSERT_BATCH_SIZE);
 
   if (batches.length === 0) {
-    return [];
+    return { records: [], conflicts: [], written: 0 };
   }
 
-  const firstBatchOps = batches.shift()?.map((record) =>
-    prisma.report.upsert({
-      where: {
-        vehicleNo_reportDate: {
-          vehicleNo: record.vehicleNo,
-          reportDate: record.reportDate,
+  const conflicts: UploadConflict[] = [];
+  let written = 0;
+
+  const saveBatch = async (tx: Prisma.TransactionClient, batch: typeof dataRows, index: number) => {
+    // The snapshot is created with the first batch so it only exists if the upload went through;
+    // recordCount grows with the rows each batch actually writes
+    if (index === 0) {
+      await tx.uploadSnapshot.create({
+        data: {
+          snapshotCode,
+          uploadedBy: uploaderEmail,
+          recordCount: 0,
+          ...file,
+          apiKeyId: uploader.apiKeyId,
+          uploadedAt: now,
+          conflictPolicy,
         },
-      },
-      update: {
-        area: record.area,
-        tankerType: record.tankerType,
-        transporterName: record.transporterName,
-        tripDistanceKm: record.tripDistanceKm,
-        tripCount: record.tripCount,
-        snapshotCode,
-        uploadedBy: uploaderEmail,
-        uploadedAt: now,
-      },
-      create: {
-        ...record,
-        uploadedBy: uploaderEmail,
-        uploadedAt: now,
-      },
-    })
-  ) ?? [];
+      });
+    }
 
-  await prisma.$transaction([
-    prisma.uploadSnapshot.create({
-      data: {
-        snapshotCode,
-        uploadedBy: uploaderEmail,
-        recordCount: dataRows.length,
-        fileName: fileName ?? null,
-        uploadedAt: now,
-      },
-    }),
-    ...firstBatchOps,
-  ]);
+    // Previous values of rows this batch will overwrite, for the audit trail
+    const existing = await tx.report.findMany({
+      where: { OR: batch.map((record) => ({ vehicleNo: record.vehicleNo, reportDate: record.reportDate })) },
+    });
+    const existingByKey = new Map(existing.map((report) => [rowKey(report), report]));
+
+    const batchConflicts: UploadConflict[] = [];
+    const records = batch.flatMap((uploaded) => {
+      const before = existingByKey.get(rowKey(uploaded));
+      if (!before || before.deletedAt) return [uploaded];
+      const { row, conflict } = resolveConflict(conflictPolicy, before, uploaded);
+      if (conflict) batchConflicts.push(conflict);
+      // Rows that already hold these values aren't rewritten, so no empty version is added
+      return row && changedFields(before, row).length > 0 ? [row] : [];
+    });
+    conflicts.push(...batchConflicts);
+
+    const writtenKeys = new Set(records.map(rowKey));
+    await archiveReportVersions(
+      tx,
+      existing.filter((report) => writtenKeys.has(rowKey(report))),
+      uploaderEmail,
+      snapshotCode
+    );
+    const vehicleIds = await linkVehicles(tx, records, uploaderEmail);
 
-  for (const batch of batches) {
-    const operations = batch.map((record) =>
-      prisma.report.upsert({
+    const events = [];
+    for (const record of records) {
+      const saved = await tx.report.upsert({
         where: {
           vehicleNo_reportDate: {
             vehicleNo: record.vehicleNo,
@@ -568,31 +923,60 @@ async function persistRows(rows: ParsedRow[], uploaderEmail: string, snapshotCod
           area: record.area,
           tankerType: record.tankerType,
           transporterName: record.transporterName,
-          tripDistanceKm: record.tripDistanceKm,
+          tripDistance: record.tripDistance,
+          distanceUnit: record.distanceUnit,
           tripCount: record.tripCount,
+          vehicleId: vehicleIds.get(record.vehicleNo),
           snapshotCode,
           uploadedBy: uploaderEmail,
           uploadedAt: now,
+          deletedAt: null,
+          deletedBy: null,
+          ...NEXT_VERSION,
         },
         create: {
           ...record,
+          vehicleId: vehicleIds.get(record.vehicleNo),
           uploadedBy: uploaderEmail,
           uploadedAt: now,
         },
-      })
-    );
+      });
+      const before = existingByKey.get(rowKey(record)) ?? null;
+      events.push(reportAuditEvent(audit, "REPORT_UPSERT", before, saved));
+    }
+
+    await recordAuditEvents(tx, events);
+    if (records.length > 0) {
+      await tx.uploadSnapshot.update({
+        where: { snapshotCode },
+        data: { recordCount: { increment: records.length } },
+      });
+    }
+    return records.length;
+  };
 
-    if (operations.length > 0) {
-      await prisma.$transaction(operations);
+  if (conflictPolicy === "FAIL") {
+    // All or nothing: one transaction, rejected as soon as any row conflicts
+    await prisma.$transaction(async (tx) => {
+      for (const [index, batch] of batches.entries()) {
+        written += await saveBatch(tx, batch, index);
+      }
+      if (conflicts.length > 0) throw conflictError(conflicts);
+    }, { timeout: FAIL_UPLOAD_TIMEOUT_MS });
+  } else {
+    // Batches commit one by one, so a large upload doesn't hold one long transaction
+    for (const [index, batch] of batches.entries()) {
+      written += await prisma.$transaction((tx) => saveBatch(tx, batch, index), { timeout: UPSERT_BATCH_TIMEOUT_MS });
     }
   }
 
   const refreshed = await prisma.report.findMany({
+    where: { ...areaScopeWhere(uploader), ...LIVE_REPORTS },
     orderBy: [
       { vehicleNo: "asc" },
       { reportDate: "asc" },
     ],
   });
 
-  return refreshed;
+  return { records: refreshed.map(serializeReport), conflicts, written };
 }
@@ -1,17 +1,28 @@
 import { randomBytes } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import type { Prisma } from "@prisma/client";
+import type { DistanceUnit, Prisma } from "@prisma/client";
 
+import { getAuditContext, recordAuditEvents } from "../../../../lib/audit";
+import { sumDistances } from "../../../../lib/distance";
+import { storePdf } from "../../../../lib/pdf-storage";
 import { prisma } from "../../../../lib/prisma";
+import { LIVE_REPORTS } from "../../../../lib/recycle-bin";
+import { parseReportDate, reportMonthsWhere } from "../../../../lib/report-dates";
 import { buildReportPdf } from "../../../../lib/report-pdf";
-import { ensureUserByEmail } from "../../../../lib/users";
+import { getStorage } from "../../../../lib/storage";
+import { areaScopeWhere, assertAreasAllowed, requireUser } from "../../../../lib/users";
+import {
+  canonicalVehicleNo,
+  inResolvedAreas,
+  REPORT_VEHICLE_INCLUDE,
+  resolvedAreaWhere,
+  withVehicleAttributes,
+} from "../../../../lib/vehicles";
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-const KM_MATCHER = /[-+]?[0-9]*\.?[0-9]+/;
-
 type Filters = {
   vehicle?: string;
   vehicles?: string[];
@@ -45,7 +56,7 @@ function normalizeFilters(filters: Filters = {} as Filters): NormalizedFilters {
       ? filters.area
       : null;
 
-  const uniqueVehicles = Array.from(new Set(vehicleArray.filter(Boolean)));
+  const uniqueVehicles = Array.from(new Set(vehicleArray.map(canonicalVehicleNo).filter(Boolean)));
   const uniqueMonths = Array.from(new Set(monthArray.filter(Boolean)));
 
   return {
@@ -55,20 +66,13 @@ function normalizeFilters(filters: Filters = {} as Filters): NormalizedFilters {
   };
 }
 
-function parseDistance(value: string | null | undefined): number {
-  if (!value) return 0;
-  const match = value.match(KM_MATCHER);
-  if (!match) return 0;
-  const num = Number.parseFloat(match[0]);
-  return Number.isNaN(num) ? 0 : num;
-}
-
 function buildSummary(rows: Array<{
   vehicleNo: string;
   area: string;
   tankerType: string;
   transporterName: string;
-  tripDistanceKm: string | null;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
   tripCount: number | null;
 }>) {
   const vehicleMap = new Map<
@@ -77,7 +81,7 @@ function buildSummary(rows: Array<{
       area: string;
       tankerType: string;
       transporterName: string;
-      totalDistance: number;
+      rows: Array<{ tripDistance: number; distanceUnit: DistanceUnit }>;
       totalTrips: number;
     }
   >();
@@ -88,70 +92,90 @@ function buildSummary(rows: Array<{
       area: row.area,
       tankerType: row.tankerType,
       transporterName: row.transporterName,
-      totalDistance: 0,
+      rows: [],
       totalTrips: 0,
     };
 
-    entry.totalDistance += parseDistance(row.tripDistanceKm ?? "0");
+    entry.rows.push(row);
     entry.totalTrips += row.tripCount ?? 0;
 
     vehicleMap.set(key, entry);
   }
 
-  const vehicleReports = Array.from(vehicleMap.entries()).map(([vehicleNumber, entry]) => ({
-    vehicleNumber,
-    area: entry.area,
-    tankerType: entry.tankerType,
-    transporterName: entry.transporterName,
-    totalDistance: Number(entry.totalDistance.toFixed(2)),
-    totalTrips: entry.totalTrips,
-    vehicleRecalculateCount: 0,
-  }));
-
-  const totalDistance = vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalDistance, 0);
+  // Kilometres and engine hours are totalled separately
+  const vehicleReports = Array.from(vehicleMap.entries()).map(([vehicleNumber, entry]) => {
+    const totals = sumDistances(entry.rows);
+    return {
+      vehicleNumber,
+      area: entry.area,
+      tankerType: entry.tankerType,
+      transporterName: entry.transporterName,
+      totalDistance: totals.km,
+      totalEngineHours: totals.engineHours,
+      totalTrips: entry.totalTrips,
+      vehicleRecalculateCount: 0,
+    };
+  });
+
+  const totals = sumDistances(rows);
   const totalTrips = vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalTrips, 0);
 
   return {
     vehicleReports,
-    totalDistance: Number(totalDistance.toFixed(2)),
+    totalDistance: totals.km,
+    totalEngineHours: totals.engineHours,
     totalTrips,
   };
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const { dateFrom, dateTo, generatedByEmail, filters = {} as Filters } = await req.json();
+    const generator = await requireUser(req, "reports:generate");
+    const { dateFrom, dateTo, filters = {} as Filters } = await req.json();
     const normalizedFilters = normalizeFilters(filters);
 
     if (!dateFrom || !dateTo) {
       return NextResponse.json({ error: "dateFrom and dateTo are required" }, { status: 400 });
     }
 
-    if (!generatedByEmail) {
-      return NextResponse.json({ error: "generatedByEmail is required" }, { status: 400 });
+    const fromDate = parseReportDate(dateFrom);
+    const toDate = parseReportDate(dateTo);
+    if (!fromDate || !toDate) {
+      return NextResponse.json({ error: "dateFrom and dateTo must be valid dates" }, { status: 400 });
     }
 
-    const generatorEmail = await ensureUserByEmail(generatedByEmail);
-
-    const where = buildWhereClause(dateFrom, dateTo, normalizedFilters);
+    const generatorEmail = generator.email;
 
-    let rows = await prisma.report.findMany({
-      where,
-      orderBy: [
-        { vehicleNo: "asc" },
-        { reportDate: "asc" },
+    if (normalizedFilters.area) {
+      assertAreasAllowed(generator, [normalizedFilters.area]);
+    }
+    const areas = normalizedFilters.area ? [normalizedFilters.area] : null;
+
+    const where: Prisma.ReportWhereInput = {
+      AND: [
+        buildWhereClause(fromDate, toDate, normalizedFilters),
+        areaScopeWhere(generator),
+        areas ? resolvedAreaWhere(areas) : {},
+        LIVE_REPORTS,
       ],
-    });
-
-    // Filter by date range in memory since we're using DD-MM-YYYY format
-    const fromDate = new Date(dateFrom);
-    const toDate = new Date(dateTo);
+    };
 
-    rows = rows.filter((row) => {
-      const rowDate = parseDDMMYYYY(row.reportDate);
-      if (!rowDate) return false;
-      return rowDate >= fromDate && rowDate <= toDate;
-    });
+    // Area, tanker type and transporter come from the vehicle registry as of each report date.
+    // The generator's scope applies to the stored area, as everywhere else, so a PDF covers
+    // exactly the rows its generator can edit; the area filter applies to the area the PDF prints.
+    const rows = inResolvedAreas(
+      (
+        await prisma.report.findMany({
+          where,
+          include: REPORT_VEHICLE_INCLUDE,
+          orderBy: [
+            { vehicleNo: "asc" },
+            { reportDate: "asc" },
+          ],
+        })
+      ).map(withVehicleAttributes),
+      areas
+    );
 
     if (rows.length === 0) {
       return NextResponse.json({ error: "No records match the selected filters" }, { status: 404 });
@@ -173,15 +197,15 @@ export async function POST(req: NextRequest) {
 
     const pdfBuffer = await buildReportPdf({
       title: "Daily Distance Report",
-      dateFrom: new Date(dateFrom),
-      dateTo: new Date(dateTo),
+      dateFrom: fromDate,
+      dateTo: toDate,
       generatedAt,
       generatedByEmail: generatorEmail,
       rows,
       verificationUrl,
     });
 
-    const pdfBase64 = pdfBuffer.toString("base64");
+    const storedPdf = await storePdf(verificationCode, pdfBuffer);
     const summary = buildSummary(rows);
 
     const createPayload = {
@@ -198,19 +222,52 @@ export async function POST(req: NextRequest) {
       filterMonth: normalizedFilters.months.length
         ? normalizedFilters.months.join(", ")
         : null,
-      pdfBase64,
+      ...storedPdf,
       recordCount: rows.length,
       summaryVehicleReports: summary.vehicleReports,
       summaryTotalDistance: summary.totalDistance,
+      summaryTotalEngineHours: summary.totalEngineHours,
       summaryTotalTrips: summary.totalTrips,
       summaryVehicleCount: summary.vehicleReports.length,
       summaryGeneratedAt: generatedAt,
     };
 
-    // Assert to Prisma type so builds with stale generated clients don't flag the summary fields.
-    await prisma.pdfGeneration.create({
-      data: createPayload as Prisma.PdfGenerationUncheckedCreateInput,
-    });
+    const audit = getAuditContext(generator, req);
+    // The PDF is already in storage; remove it again if the record can't be saved
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Assert to Prisma type so builds with stale generated clients don't flag the summary fields.
+        const pdf = await tx.pdfGeneration.create({
+          data: createPayload as Prisma.PdfGenerationUncheckedCreateInput,
+        });
+        await recordAuditEvents(tx, [
+          {
+            ...audit,
+            action: "PDF_GENERATE",
+            targetType: "PdfGeneration",
+            targetId: pdf.id,
+            area: createPayload.filterArea,
+            after: {
+              verificationCode,
+              dateFrom,
+              dateTo,
+              filterVehicle: createPayload.filterVehicle,
+              filterArea: createPayload.filterArea,
+              filterMonth: createPayload.filterMonth,
+              recordCount: rows.length,
+              totalDistance: summary.totalDistance,
+              totalEngineHours: summary.totalEngineHours,
+              totalTrips: summary.totalTrips,
+            },
+          },
+        ]);
+      });
+    } catch (error) {
+      await getStorage().delete(storedPdf.pdfKey).catch((cleanupError) => {
+        console.error("Failed to remove stored PDF", cleanupError);
+      });
+      throw error;
+    }
 
     return NextResponse.json({
       success: true,
@@ -222,86 +279,24 @@ export async function POST(req: NextRequest) {
   } catch (error: any) {
     console.error("Failed to generate PDF", error);
     const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
-    const message = status === 400 && error?.message ? error.message : "Failed to generate PDF";
+    const message = status < 500 && error?.message ? error.message : "Failed to generate PDF";
     return NextResponse.json({ error: message }, { status });
   }
 }
 
-/**
- * Convert YYYY-MM-DD to DD-MM-YYYY format for comparison
- */
-function convertToComparableFormat(isoDate: string): string {
-  const [year, month, day] = isoDate.split("-");
-  return `${day}-${month}-${year}`;
-}
-
-/**
- * Parse DD-MM-YYYY string to Date object for comparison
- */
-function parseDDMMYYYY(dateStr: string): Date | null {
-  const parts = dateStr.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/);
-  if (!parts) return null;
-  const [, day, month, year] = parts;
-  return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-}
-
-function buildWhereClause(dateFrom: string, dateTo: string, filters: NormalizedFilters): Prisma.ReportWhereInput {
-  const clauses: Prisma.ReportWhereInput[] = [];
-
-  // Convert ISO dates to DD-MM-YYYY for comparison
-  const fromDateDDMMYYYY = convertToComparableFormat(dateFrom);
-  const toDateDDMMYYYY = convertToComparableFormat(dateTo);
-
-  // For date range filtering with DD-MM-YYYY format, we need to fetch all records
-  // and filter them in memory, or we can use a raw query
-  // For now, we'll apply date filtering after fetching
-  // clauses.push({ reportDate: { gte: fromDateDDMMYYYY } });
-  // clauses.push({ reportDate: { lte: toDateDDMMYYYY } });
+function buildWhereClause(dateFrom: Date, dateTo: Date, filters: NormalizedFilters): Prisma.ReportWhereInput {
+  const clauses: Prisma.ReportWhereInput[] = [
+    { reportDate: { gte: dateFrom, lte: dateTo } },
+  ];
 
   if (filters.vehicles.length > 0) {
     clauses.push({ vehicleNo: { in: filters.vehicles } });
   }
 
-  if (filters.area) {
-    clauses.push({ area: filters.area });
-  }
-
   if (filters.months.length > 0) {
-    clauses.push({
-      OR: filters.months.flatMap((monthKey) => {
-        // monthKey is in format "YYYY-MM" (e.g., "2025-08")
-        // Need to match both date formats that may exist in DB:
-        // 1. DD-MM-YYYY (e.g., "01-08-2025") - new format
-        // 2. YYYY-MM-DD (e.g., "2025-08-01") - legacy format
-
-        const parts = monthKey.split("-");
-        if (parts.length !== 2) return [];
-
-        const year = parts[0];
-        const month = parts[1];
-        const monthInt = parseInt(month, 10);
-        if (isNaN(monthInt)) return [];
-
-        const patterns = [];
-
-        // Match DD-MM-YYYY format: "-08-2025" (primary format)
-        patterns.push({ reportDate: { contains: `-${month}-${year}` } });
-
-        // Match DD-M-YYYY format: "-8-2025" (unpadded month)
-        if (month.startsWith("0")) {
-          patterns.push({ reportDate: { contains: `-${monthInt}-${year}` } });
-        }
-
-        // Match YYYY-MM-DD format: "2025-08-" (legacy format)
-        patterns.push({ reportDate: { startsWith: `${year}-${month}-` } });
-
-        // Match YYYY-M-DD format: "2025-8-" (legacy unpadded)
-        patterns.push({ reportDate: { startsWith: `${year}-${monthInt}-` } });
-
-        return patterns;
-      }),
-    });
+    // Selected months with no valid YYYY-MM key match nothing rather than everything
+    clauses.push(reportMonthsWhere(filters.months) ?? { id: { in: [] } });
   }
 
-  return clauses.length > 0 ? { AND: clauses } : {};
+  return { AND: clauses };
 }
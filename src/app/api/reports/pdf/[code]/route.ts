@@ -1,10 +1,30 @@
+/**
+ * Generated PDF Download Route
+ *
+ * - GET: Stream a generated PDF from storage
+ *
+ * The PDF is checked against the SHA-256 recorded when it was generated while
+ * it streams; on a mismatch the download fails instead of completing. PDFs not
+ * yet moved out of the database are served from there.
+ */
+
 import { NextRequest, NextResponse } from "next/server";
 
+import { scheduleMoveDatabasePdfs } from "../../../../../lib/pdf-storage";
 import { prisma } from "../../../../../lib/prisma";
+import { getStorage, verifyStreamHash } from "../../../../../lib/storage";
+import { getAreaScope, requireUser } from "../../../../../lib/users";
 
-export async function GET(_req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
   const { code } = await params;
 
+  let user: Awaited<ReturnType<typeof requireUser>>;
+  try {
+    user = await requireUser(req, "reports:read");
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode ?? 401 });
+  }
+
   if (!code) {
     return NextResponse.json({ error: "Verification code is required" }, { status: 400 });
   }
@@ -13,18 +33,49 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
     where: { verificationCode: code },
   });
 
-  if (!record || !record.pdfBase64) {
+  if (!record || (!record.pdfKey && !record.pdfBase64)) {
+    return NextResponse.json({ error: "PDF not found" }, { status: 404 });
+  }
+
+  // Area-scoped users may download their own PDFs and PDFs limited to one of their areas
+  const scope = getAreaScope(user);
+  const inScope = record.generatedBy === user.email || (!!record.filterArea && scope?.includes(record.filterArea));
+  if (scope && !inScope) {
     return NextResponse.json({ error: "PDF not found" }, { status: 404 });
   }
 
-  const buffer = Buffer.from(record.pdfBase64, "base64");
   const filename = `report_${code}.pdf`;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  };
+
+  if (!record.pdfKey) {
+    scheduleMoveDatabasePdfs();
+    const buffer = Buffer.from(record.pdfBase64!, "base64");
+    return new NextResponse(buffer, {
+      headers: { ...headers, "Content-Length": buffer.length.toString() },
+    });
+  }
+
+  let stored;
+  try {
+    stored = await getStorage().getStream(record.pdfKey);
+  } catch (error) {
+    console.error("Failed to read PDF from storage", error);
+    return NextResponse.json({ error: "Failed to load PDF" }, { status: 500 });
+  }
+  if (!stored) {
+    console.error(`Stored PDF missing for ${code}: ${record.pdfKey}`);
+    return NextResponse.json({ error: "PDF not found" }, { status: 404 });
+  }
 
-  return new NextResponse(buffer, {
+  const size = record.pdfSize ?? stored.size;
+  return new NextResponse(record.pdfSha256 ? verifyStreamHash(stored.body, record.pdfSha256) : stored.body, {
     headers: {
-      "Content-Type": "application/pdf",
-      "Content-Disposition": `attachment; filename="${filename}"`,
-      "Content-Length": buffer.length.toString(),
+      ...headers,
+      ...(size !== null ? { "Content-Length": size.toString() } : {}),
+      ...(record.pdfSha256 ? { "X-Content-SHA256": record.pdfSha256 } : {}),
     },
   });
 }
@@ -0,0 +1,122 @@
+/**
+ * Report Recycle Bin API Route
+ *
+ * - GET: Deleted rows, most recently deleted first, with the retention period
+ * - POST: Restore deleted rows ({ ids })
+ * - DELETE: Permanently remove deleted rows ({ ids })
+ *
+ * Requires reports:delete; users without areas:all only see and act on rows in
+ * their own areas. Opening the bin also purges rows past the retention period.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getAuditContext, recordAuditEvents, reportAuditEvent } from "../../../../lib/audit";
+import { prisma } from "../../../../lib/prisma";
+import {
+  DELETED_REPORTS,
+  getRetentionDays,
+  purgeExpiredReports,
+  purgeReports,
+} from "../../../../lib/recycle-bin";
+import { serializeReport } from "../../../../lib/report-dates";
+import { areaScopeWhere, requireUser } from "../../../../lib/users";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Read the ids from a restore or purge request body
+ * @throws Error with statusCode 400 when ids is missing or empty
+ */
+async function readIds(req: NextRequest): Promise<string[]> {
+  const { ids } = await req.json();
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw Object.assign(new Error("ids must be a non-empty array"), { statusCode: 400 });
+  }
+  return ids.map(String);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:delete");
+    await purgeExpiredReports();
+
+    const records = await prisma.report.findMany({
+      where: { ...areaScopeWhere(user), ...DELETED_REPORTS },
+      orderBy: [
+        { deletedAt: "desc" },
+        { vehicleNo: "asc" },
+        { reportDate: "asc" },
+      ],
+    });
+
+    return NextResponse.json({
+      retentionDays: getRetentionDays(),
+      records: records.map(serializeReport),
+    });
+  } catch (error: any) {
+    console.error("Failed to load recycle bin", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load recycle bin";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:delete");
+    const ids = await readIds(req);
+
+    const audit = getAuditContext(user, req);
+    const restored = await prisma.$transaction(async (tx) => {
+      const deleted = await tx.report.findMany({
+        where: { id: { in: ids }, ...areaScopeWhere(user), ...DELETED_REPORTS },
+      });
+      if (deleted.length === 0) return [];
+      await tx.report.updateMany({
+        where: { id: { in: deleted.map((report) => report.id) } },
+        data: { deletedAt: null, deletedBy: null },
+      });
+      const live = deleted.map((report) => ({ ...report, deletedAt: null, deletedBy: null }));
+      await recordAuditEvents(tx, live.map((report) => reportAuditEvent(audit, "REPORT_RESTORE", null, report)));
+      return live;
+    });
+
+    if (restored.length === 0) {
+      return NextResponse.json({ error: "No matching rows in the recycle bin" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, restoredCount: restored.length, records: restored.map(serializeReport) });
+  } catch (error: any) {
+    console.error("Failed to restore reports", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to restore reports";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:delete");
+    const ids = await readIds(req);
+
+    const scoped = await prisma.report.findMany({
+      where: { id: { in: ids }, ...areaScopeWhere(user), ...DELETED_REPORTS },
+      select: { id: true },
+    });
+
+    const audit = getAuditContext(user, req);
+    const purged = await prisma.$transaction((tx) =>
+      purgeReports(tx, scoped.map((report) => report.id), audit)
+    );
+
+    if (purged === 0) {
+      return NextResponse.json({ error: "No matching rows in the recycle bin" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, purgedCount: purged });
+  } catch (error: any) {
+    console.error("Failed to purge reports", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to purge reports";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { Prisma } from "@prisma/client";
+import type { DistanceUnit, Prisma } from "@prisma/client";
 
+import { sumDistances } from "../../../../../lib/distance";
 import { prisma } from "../../../../../lib/prisma";
-
-const KM_MATCHER = /[-+]?[0-9]*\.?[0-9]+/;
-
-function parseDistance(value: string | null | undefined): number {
-  if (!value) return 0;
-  const match = value.match(KM_MATCHER);
-  if (!match) return 0;
-  const num = Number.parseFloat(match[0]);
-  return Number.isNaN(num) ? 0 : num;
-}
+import { LIVE_REPORTS } from "../../../../../lib/recycle-bin";
+import { parseReportDate, reportMonthsWhere } from "../../../../../lib/report-dates";
+import {
+  canonicalVehicleNo,
+  inResolvedAreas,
+  REPORT_VEHICLE_INCLUDE,
+  resolvedAreaWhere,
+  withVehicleAttributes,
+} from "../../../../../lib/vehicles";
 
 function buildWhereClause({
   dateFrom,
@@ -26,14 +26,16 @@ function buildWhereClause({
   filterArea: string | null;
   filterMonth: string | null;
 }): Prisma.ReportWhereInput {
-  const clauses: Prisma.ReportWhereInput[] = [
-    { reportDate: { gte: dateFrom } },
-    { reportDate: { lte: dateTo } },
-  ];
+  const clauses: Prisma.ReportWhereInput[] = [];
+
+  const fromDate = parseReportDate(dateFrom);
+  const toDate = parseReportDate(dateTo);
+  if (fromDate) clauses.push({ reportDate: { gte: fromDate } });
+  if (toDate) clauses.push({ reportDate: { lte: toDate } });
 
   const vehicleFilters =
     filterVehicle && filterVehicle !== "all"
-      ? filterVehicle.split(",").map((token) => token.trim()).filter(Boolean)
+      ? filterVehicle.split(",").map(canonicalVehicleNo).filter(Boolean)
       : [];
 
   if (vehicleFilters.length > 0) {
@@ -41,7 +43,7 @@ function buildWhereClause({
   }
 
   if (filterArea && filterArea !== "all") {
-    clauses.push({ area: filterArea });
+    clauses.push(resolvedAreaWhere([filterArea]));
   }
 
   const monthFilters =
@@ -50,11 +52,7 @@ function buildWhereClause({
       : [];
 
   if (monthFilters.length > 0) {
-    clauses.push({
-      OR: monthFilters.map((month) => ({
-        reportDate: { startsWith: `${month}-` },
-      })),
-    });
+    clauses.push(reportMonthsWhere(monthFilters) ?? { id: { in: [] } });
   }
 
   return { AND: clauses };
@@ -65,7 +63,8 @@ type SummaryVehicleReport = {
   area: string;
   tankerType: string;
   transporterName: string;
-  totalDistance: number;
+  totalDistance: number;       // Kilometres
+  totalEngineHours?: number;   // Missing from summaries stored before units were tracked
   totalTrips: number;
   vehicleRecalculateCount: number;
 };
@@ -90,6 +89,7 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
       filterMonth: true,
       summaryVehicleReports: true,
       summaryTotalDistance: true,
+      summaryTotalEngineHours: true,
       summaryTotalTrips: true,
       summaryVehicleCount: true,
       summaryGeneratedAt: true,
@@ -102,23 +102,33 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
 
   let vehicleReports: SummaryVehicleReport[] = [];
   let totalDistance = 0;
+  let totalEngineHours = 0;
   let totalTrips = 0;
   let totalVehicleReports = 0;
 
   if (Array.isArray(record.summaryVehicleReports) && record.summaryVehicleReports.length > 0) {
     vehicleReports = record.summaryVehicleReports as SummaryVehicleReport[];
     totalDistance = record.summaryTotalDistance ?? vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalDistance, 0);
+    totalEngineHours =
+      record.summaryTotalEngineHours ?? vehicleReports.reduce((sum, vehicle) => sum + (vehicle.totalEngineHours ?? 0), 0);
     totalTrips = record.summaryTotalTrips ?? vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalTrips, 0);
     totalVehicleReports = record.summaryVehicleCount ?? vehicleReports.length;
   } else {
     const where = buildWhereClause(record);
-    const reports = await prisma.report.findMany({
-      where,
-      orderBy: [
-        { vehicleNo: "asc" },
-        { reportDate: "asc" },
-      ],
-    });
+    const filterArea = record.filterArea && record.filterArea !== "all" ? record.filterArea : null;
+    const reports = inResolvedAreas(
+      (
+        await prisma.report.findMany({
+          where: { AND: [where, LIVE_REPORTS] },
+          include: REPORT_VEHICLE_INCLUDE,
+          orderBy: [
+            { vehicleNo: "asc" },
+            { reportDate: "asc" },
+          ],
+        })
+      ).map(withVehicleAttributes),
+      filterArea ? [filterArea] : null
+    );
 
     const vehicleMap = new Map<
       string,
@@ -126,7 +136,7 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
         area: string;
         tankerType: string;
         transporterName: string;
-        totalDistance: number;
+        rows: Array<{ tripDistance: number; distanceUnit: DistanceUnit }>;
         totalTrips: number;
       }
     >();
@@ -137,27 +147,33 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
         area: row.area,
         tankerType: row.tankerType,
         transporterName: row.transporterName,
-        totalDistance: 0,
+        rows: [],
         totalTrips: 0,
       };
 
-      entry.totalDistance += parseDistance(row.tripDistanceKm ?? "0");
+      entry.rows.push(row);
       entry.totalTrips += row.tripCount ?? 0;
 
       vehicleMap.set(key, entry);
     }
 
-    vehicleReports = Array.from(vehicleMap.entries()).map(([vehicleNumber, entry]) => ({
-      vehicleNumber,
-      area: entry.area,
-      tankerType: entry.tankerType,
-      transporterName: entry.transporterName,
-      totalDistance: entry.totalDistance,
-      totalTrips: entry.totalTrips,
-      vehicleRecalculateCount: 0,
-    }));
-
-    totalDistance = vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalDistance, 0);
+    vehicleReports = Array.from(vehicleMap.entries()).map(([vehicleNumber, entry]) => {
+      const totals = sumDistances(entry.rows);
+      return {
+        vehicleNumber,
+        area: entry.area,
+        tankerType: entry.tankerType,
+        transporterName: entry.transporterName,
+        totalDistance: totals.km,
+        totalEngineHours: totals.engineHours,
+        totalTrips: entry.totalTrips,
+        vehicleRecalculateCount: 0,
+      };
+    });
+
+    const totals = sumDistances(reports);
+    totalDistance = totals.km;
+    totalEngineHours = totals.engineHours;
     totalTrips = vehicleReports.reduce((sum, vehicle) => sum + vehicle.totalTrips, 0);
     totalVehicleReports = vehicleReports.length;
   }
@@ -171,6 +187,7 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
       generationTime: record.summaryGeneratedAt ?? record.generatedAt,
       generatedBy: record.generatedBy,
       totalDistance,
+      totalEngineHours,
       totalTrips,
       totalVehicleReports,
       vehicleReports,
@@ -179,7 +196,6 @@ export async function GET(_req: NextRequest, { params }: { params: Promise<{ cod
         area: record.filterArea ?? "all",
         month: record.filterMonth ?? "all",
       },
-      downloadUrl: `/api/reports/pdf/${code}`,
     },
   });
 }
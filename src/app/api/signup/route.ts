@@ -2,30 +2,86 @@ import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcrypt';
 
 import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/mail';
+import { hashToken } from '@/lib/tokens';
+import { sendVerificationEmail } from '@/lib/user-tokens';
+import { MIN_PASSWORD_LENGTH } from '@/lib/users';
 
 export const dynamic = 'force-dynamic';
 
-const DEVELOPER_CODE = process.env.DEVELOPER_SIGNUP_CODE || 'DEV2025DJBVTS';
+/**
+ * Look up a pending invite by its raw token
+ * Returns null for unknown, revoked, expired or already accepted invites
+ */
+async function findPendingInvite(inviteToken: string) {
+  const invite = await prisma.userInvite.findUnique({ where: { tokenHash: hashToken(inviteToken) } });
+  if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt < new Date()) {
+    return null;
+  }
+  return invite;
+}
+
+// Lets the signup page show which email/name an invite link is for
+export async function GET(req: NextRequest) {
+  const inviteToken = req.nextUrl.searchParams.get('invite');
+  if (!inviteToken) {
+    return NextResponse.json({ message: 'Invite token is required' }, { status: 400 });
+  }
+
+  const invite = await findPendingInvite(inviteToken);
+  if (!invite) {
+    return NextResponse.json({ message: 'Invite is invalid or has expired' }, { status: 404 });
+  }
+
+  return NextResponse.json({ email: invite.email, name: invite.name, role: invite.role }, { status: 200 });
+}
 
 export async function POST(req: NextRequest) {
   try {
-    const { email, password, name, developerCode } = await req.json();
+    const { password, name, inviteToken } = await req.json();
+
+    if (!password) {
+      return NextResponse.json({ message: 'password required' }, { status: 400 });
+    }
 
-    if (!email || !password) {
-      return NextResponse.json({ message: 'email & password required' }, { status: 400 });
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
     }
 
-    if (!developerCode) {
-      return NextResponse.json({ message: 'Developer code is required' }, { status: 400 });
+    if (!inviteToken) {
+      return NextResponse.json({ message: 'Invite token is required' }, { status: 400 });
     }
 
-    if (developerCode !== DEVELOPER_CODE) {
-      return NextResponse.json({ message: 'Invalid developer code' }, { status: 403 });
+    const invite = await findPendingInvite(inviteToken);
+    if (!invite) {
+      return NextResponse.json({ message: 'Invite is invalid or has expired' }, { status: 403 });
     }
 
     const hash = await bcrypt.hash(password, 12);
-    const user = await prisma.user.create({ data: { email, password: hash, name } });
-    return NextResponse.json({ id: user.id, email: user.email }, { status: 201 });
+    const [user] = await prisma.$transaction([
+      prisma.user.create({
+        data: {
+          email: invite.email,
+          password: hash,
+          name: name || invite.name,
+          role: invite.role,
+          areas: invite.areas,
+        },
+      }),
+      prisma.userInvite.update({ where: { id: invite.id }, data: { acceptedAt: new Date() } }),
+    ]);
+
+    try {
+      await sendVerificationEmail(user, getAppUrl());
+    } catch (mailError) {
+      // The account exists either way; the user can ask for a new link from the login page
+      console.error('Failed to send verification email', mailError);
+    }
+
+    return NextResponse.json({ id: user.id, email: user.email, verificationRequired: true }, { status: 201 });
   } catch (e: any) {
     if (e.code === 'P2002') {
       return NextResponse.json({ message: 'Email already exists' }, { status: 409 });
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { rotateRefreshToken } from '@/lib/sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { refreshToken } = await req.json();
+    if (!refreshToken) {
+      return NextResponse.json({ message: 'refreshToken required' }, { status: 400 });
+    }
+
+    const session = await rotateRefreshToken(refreshToken, req);
+    return NextResponse.json(session, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    return NextResponse.json({ message: status < 500 ? e.message : 'Token refresh failed' }, { status });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+
+import { disableTwoFactor, isTwoFactorEnforced, verifySecondFactor } from '@/lib/two-factor';
+import { requireUser } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Turn off two-factor for the signed-in user
+ * Body { password, code } or { password, recoveryCode }. Not allowed while
+ * two-factor is enforced for the user's role.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser(req);
+    if (user.apiKeyId) {
+      return NextResponse.json({ message: 'API keys cannot manage two-factor' }, { status: 403 });
+    }
+
+    if (isTwoFactorEnforced(user)) {
+      return NextResponse.json({ message: 'Two-factor authentication is required for your role' }, { status: 403 });
+    }
+    if (!user.totpEnabledAt) {
+      return NextResponse.json({ message: 'Two-factor authentication is not enabled' }, { status: 400 });
+    }
+
+    const { password, code, recoveryCode } = await req.json();
+    const passwordOk = await bcrypt.compare(String(password ?? ''), user.password);
+    if (!passwordOk || !(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return NextResponse.json({ message: 'Invalid password or authentication code' }, { status: 400 });
+    }
+
+    await disableTwoFactor(user.id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to disable two-factor', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Failed to disable two-factor' }, { status });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { enableTwoFactor, findTotpStep } from '@/lib/two-factor';
+import { requireUser } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Finish two-factor enrolment for the signed-in user
+ * Body { code } must be a current code from the secret returned by
+ * /api/two-factor/setup. Responds with recovery codes, shown only once.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser(req);
+    if (user.apiKeyId) {
+      return NextResponse.json({ message: 'API keys cannot manage two-factor' }, { status: 403 });
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json({ message: 'Two-factor authentication is already enabled' }, { status: 409 });
+    }
+    if (!user.totpSecret) {
+      return NextResponse.json({ message: 'Start two-factor setup first' }, { status: 400 });
+    }
+
+    const { code } = await req.json();
+    const step = findTotpStep(user.totpSecret, String(code ?? ''));
+    if (step === null) {
+      return NextResponse.json({ message: 'Invalid authentication code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await enableTwoFactor(user.id, step);
+    return NextResponse.json({ success: true, recoveryCodes }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to enable two-factor', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Failed to enable two-factor' }, { status });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { generateRecoveryCodes, verifySecondFactor } from '@/lib/two-factor';
+import { requireUser } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Replace the signed-in user's recovery codes (body { code })
+ * Every previous recovery code stops working; the new ones are shown only once.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser(req);
+    if (user.apiKeyId) {
+      return NextResponse.json({ message: 'API keys cannot manage two-factor' }, { status: 403 });
+    }
+
+    if (!user.totpEnabledAt) {
+      return NextResponse.json({ message: 'Two-factor authentication is not enabled' }, { status: 400 });
+    }
+
+    const { code } = await req.json();
+    if (!(await verifySecondFactor(user, { code }))) {
+      return NextResponse.json({ message: 'Invalid authentication code' }, { status: 400 });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({ where: { id: user.id }, data: { totpRecoveryCodes: hashes } });
+
+    return NextResponse.json({ success: true, recoveryCodes: codes }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to regenerate recovery codes', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Failed to regenerate recovery codes' }, { status });
+  }
+}
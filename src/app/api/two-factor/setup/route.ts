@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { verifyMfaChallenge } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { buildOtpauthUrl, generateTotpSecret } from '@/lib/two-factor';
+import { requireUser } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Start two-factor enrolment: create a new pending secret for the user
+ * Authenticated by the access token, or by the mfaToken from /api/login when
+ * two-factor is enforced and the user hasn't enrolled yet. The secret only
+ * takes effect once a code from it is confirmed (/api/two-factor/enable, or
+ * the second /api/login step).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { mfaToken } = await req.json().catch(() => ({}));
+    const user = mfaToken ? await userFromEnrollmentChallenge(mfaToken) : await requireUser(req);
+
+    if ('apiKeyId' in user && user.apiKeyId) {
+      return NextResponse.json({ message: 'API keys cannot manage two-factor' }, { status: 403 });
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json({ message: 'Two-factor authentication is already enabled' }, { status: 409 });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret } });
+
+    return NextResponse.json({ secret, otpauthUrl: buildOtpauthUrl(secret, user.email) }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to start two-factor setup', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Two-factor setup failed' }, { status });
+  }
+}
+
+async function userFromEnrollmentChallenge(mfaToken: string) {
+  const expired = Object.assign(new Error('Sign-in attempt expired, please sign in again'), { statusCode: 401 });
+
+  let claims;
+  try {
+    claims = verifyMfaChallenge(mfaToken);
+  } catch {
+    throw expired;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: claims.sub } });
+  if (!claims.enroll || !user || !user.isActive || user.tokenVersion !== claims.ver) {
+    throw expired;
+  }
+  return user;
+}
@@ -0,0 +1,69 @@
+/**
+ * Upload Diff API Route
+ *
+ * - GET: Compare the rows of a snapshot with another snapshot or the current data
+ *   Query params: against (a snapshot code, or "current" — the default)
+ *
+ * Rows are matched by vehicle and date and reported as added, removed, changed
+ * (with the fields that differ) or unchanged, going from this snapshot to
+ * `against`; pass the older snapshot in the path to read it as "what the newer
+ * upload did". Against the current data only this snapshot's vehicle/date keys
+ * are compared, so a row is removed when it has since been deleted and nothing
+ * is ever added.
+ *
+ * Requires reports:read. Users without areas:all only see their own uploads,
+ * and only rows in their areas.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { serializeReport } from "@/lib/report-dates";
+import { diffRows, findSnapshot, loadCurrentRows, loadSnapshotRows } from "@/lib/upload-snapshots";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { code } = await params;
+    const against = req.nextUrl.searchParams.get("against")?.trim() || "current";
+
+    const snapshot = await findSnapshot(user, code);
+    const base = await loadSnapshotRows(user, code);
+
+    let againstSnapshot = null;
+    let target;
+    if (against === "current") {
+      target = await loadCurrentRows(user, base);
+    } else {
+      againstSnapshot = await findSnapshot(user, against);
+      target = await loadSnapshotRows(user, against);
+    }
+
+    const diff = diffRows(base, target);
+    return NextResponse.json({
+      snapshot,
+      against: againstSnapshot ?? "current",
+      summary: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        unchanged: diff.unchanged.length,
+      },
+      added: diff.added.map(serializeReport),
+      removed: diff.removed.map(serializeReport),
+      changed: diff.changed.map(({ before, after, fields }) => ({
+        before: serializeReport(before),
+        after: serializeReport(after),
+        fields,
+      })),
+      unchanged: diff.unchanged.map(serializeReport),
+    });
+  } catch (error: any) {
+    console.error("Failed to compare uploads", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to compare uploads";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Upload File API Route
+ *
+ * - GET: Download the original file of an upload exactly as it was received
+ *
+ * The file is checked against the SHA-256 recorded at upload time before it is
+ * sent, and the hash is returned in the X-Content-SHA256 header. Requires
+ * reports:read; users without areas:all can only download their own uploads.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { attachmentDisposition, getStorage, hashContent } from "@/lib/storage";
+import { findSnapshot, uploadFileContentType } from "@/lib/upload-snapshots";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { code } = await params;
+
+    const snapshot = await findSnapshot(user, code);
+    if (!snapshot.fileKey) {
+      return NextResponse.json({ error: "No file was kept for this upload" }, { status: 404 });
+    }
+
+    const data = await getStorage().get(snapshot.fileKey);
+    if (!data) {
+      console.error(`Stored file missing for upload ${code}: ${snapshot.fileKey}`);
+      return NextResponse.json({ error: "Stored file is missing" }, { status: 500 });
+    }
+    if (snapshot.fileSha256 && hashContent(data) !== snapshot.fileSha256) {
+      console.error(`Stored file for upload ${code} does not match its recorded hash`);
+      return NextResponse.json({ error: "Stored file failed its integrity check" }, { status: 500 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": uploadFileContentType(snapshot.fileMimeType),
+        "Content-Disposition": attachmentDisposition(snapshot.fileName ?? "upload"),
+        "Content-Length": data.length.toString(),
+        "X-Content-SHA256": snapshot.fileSha256 ?? "",
+      },
+    });
+  } catch (error: any) {
+    console.error("Failed to download upload file", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to download upload file";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
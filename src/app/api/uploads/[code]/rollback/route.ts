@@ -0,0 +1,173 @@
+/**
+ * Upload Rollback API Route
+ *
+ * - POST: Undo one upload ({ dryRun?: boolean, force?: boolean })
+ *
+ * Requires uploads:rollback. Rows the upload created are moved to the recycle
+ * bin and rows it overwrote get back the values they had before it, taken from
+ * their version history, all in one transaction. Rows the upload brought back
+ * from the recycle bin go back there. Rows changed again since the
+ * upload (edited, re-uploaded, renamed or merged) are conflicts: unless force
+ * is set nothing changes and the response (409) lists them; with force they
+ * are rolled back too, and the later values stay in their history. With dryRun
+ * the plan is returned without writing. An upload can only be rolled back once.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma, Report, ReportVersion } from "@prisma/client";
+
+import { getAuditContext, recordAuditEvents, reportAuditEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { serializeReport } from "@/lib/report-dates";
+import { archiveReportVersions, NEXT_VERSION, serializeReportVersion } from "@/lib/report-versions";
+import { requireUser } from "@/lib/users";
+import { linkVehicles } from "@/lib/vehicles";
+
+export const dynamic = "force-dynamic";
+
+type RollbackPlan = {
+  // Live rows the upload created
+  deletions: Report[];
+  // Rows it overwrote, with the values they had before it
+  restorations: Array<{ current: Report; previous: ReportVersion }>;
+  // Rows of either kind changed since the upload
+  conflicts: Report[];
+};
+
+/**
+ * Work out what rolling back an upload would change
+ * A row was overwritten by the upload when a version it replaced exists, and
+ * created by it otherwise. A row has changed since when it no longer carries
+ * the upload's snapshot code, or when values from the upload were archived by
+ * anything but the upload itself.
+ */
+async function planRollback(tx: Prisma.TransactionClient, snapshotCode: string): Promise<RollbackPlan> {
+  const versions = await tx.reportVersion.findMany({
+    where: { OR: [{ snapshotCode }, { replacedBySnapshot: snapshotCode }] },
+    orderBy: { version: "asc" },
+  });
+  const reports = await tx.report.findMany({
+    where: { OR: [{ snapshotCode }, { id: { in: Array.from(new Set(versions.map((version) => version.reportId))) } }] },
+    orderBy: [
+      { vehicleNo: "asc" },
+      { reportDate: "asc" },
+    ],
+  });
+
+  const plan: RollbackPlan = { deletions: [], restorations: [], conflicts: [] };
+  for (const report of reports) {
+    const history = versions.filter((version) => version.reportId === report.id);
+    // Rows repeated in one upload archive the upload's own values too; skip past those
+    const previous = history.find(
+      (version) => version.replacedBySnapshot === snapshotCode && version.snapshotCode !== snapshotCode
+    );
+    if (!previous && report.deletedAt) continue;
+
+    const changed =
+      report.snapshotCode !== snapshotCode ||
+      history.some((version) => version.snapshotCode === snapshotCode && version.replacedBySnapshot !== snapshotCode);
+
+    if (previous) plan.restorations.push({ current: report, previous });
+    else plan.deletions.push(report);
+    if (changed) plan.conflicts.push(report);
+  }
+  return plan;
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const admin = await requireUser(req, "uploads:rollback");
+    const { code } = await params;
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+    const force = body?.force === true;
+
+    const audit = getAuditContext(admin, req);
+    const result = await prisma.$transaction(async (tx) => {
+      const snapshot = await tx.uploadSnapshot.findUnique({ where: { snapshotCode: code } });
+      if (!snapshot) {
+        throw Object.assign(new Error("Upload not found"), { statusCode: 404 });
+      }
+      if (snapshot.rolledBackAt) {
+        throw Object.assign(new Error(`Upload was already rolled back by ${snapshot.rolledBackBy ?? "unknown"}`), {
+          statusCode: 409,
+        });
+      }
+
+      const plan = await planRollback(tx, code);
+      const summary = {
+        snapshot,
+        deletions: plan.deletions.map(serializeReport),
+        restorations: plan.restorations.map(({ current, previous }) => ({
+          current: serializeReport(current),
+          restoreTo: serializeReportVersion(previous),
+        })),
+        conflicts: plan.conflicts.map(serializeReport),
+      };
+
+      if (plan.conflicts.length > 0 && !force && !dryRun) {
+        throw Object.assign(
+          new Error(`${plan.conflicts.length} row(s) changed after this upload; roll back with force to revert them too`),
+          { statusCode: 409, conflicts: summary.conflicts }
+        );
+      }
+      if (dryRun) return summary;
+
+      const deletedAt = new Date();
+      if (plan.deletions.length > 0) {
+        await tx.report.updateMany({
+          where: { id: { in: plan.deletions.map((report) => report.id) } },
+          data: { deletedAt, deletedBy: admin.email },
+        });
+      }
+
+      const restoredValues = plan.restorations.map(({ previous }) => ({
+        vehicleNo: previous.vehicleNo,
+        area: previous.area,
+        tankerType: previous.tankerType,
+        transporterName: previous.transporterName,
+        reportDate: previous.reportDate,
+        tripDistance: previous.tripDistance,
+        distanceUnit: previous.distanceUnit,
+        tripCount: previous.tripCount,
+        snapshotCode: previous.snapshotCode,
+        uploadedBy: previous.uploadedBy,
+        uploadedAt: previous.uploadedAt,
+        deletedAt: previous.deletedAt,
+        deletedBy: previous.deletedBy,
+      }));
+      const vehicleIds = await linkVehicles(tx, restoredValues, admin.email);
+      await archiveReportVersions(tx, plan.restorations.map(({ current }) => current), admin.email);
+
+      const events = plan.deletions.map((report) => reportAuditEvent(audit, "REPORT_ROLLBACK", report, null));
+      for (const [index, { current }] of plan.restorations.entries()) {
+        const values = restoredValues[index];
+        const updated = await tx.report.update({
+          where: { id: current.id },
+          data: { ...values, vehicleId: vehicleIds.get(values.vehicleNo), ...NEXT_VERSION },
+        });
+        events.push(reportAuditEvent(audit, "REPORT_ROLLBACK", current, updated));
+      }
+      await recordAuditEvents(tx, events);
+
+      const rolledBack = await tx.uploadSnapshot.update({
+        where: { snapshotCode: code },
+        data: { rolledBackAt: deletedAt, rolledBackBy: admin.email },
+      });
+      return { ...summary, snapshot: rolledBack };
+    }, { timeout: 30_000 });
+
+    return NextResponse.json({ success: true, dryRun, ...result });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json(
+        { error: "A restored row would clash with another report for the same vehicle and date" },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to roll back upload", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to roll back upload";
+    return NextResponse.json({ error: message, conflicts: error?.conflicts }, { status });
+  }
+}
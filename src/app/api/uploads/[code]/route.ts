@@ -0,0 +1,35 @@
+/**
+ * Upload Snapshot API Route
+ *
+ * - GET: The snapshot and the rows it wrote, each with its status: "current"
+ *        (the row still holds these values), "replaced" (changed since) or
+ *        "deleted" (in the recycle bin)
+ *
+ * Requires reports:read. Users without areas:all only see their own uploads,
+ * and only rows in their areas.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { serializeReport } from "@/lib/report-dates";
+import { findSnapshot, loadSnapshotRows } from "@/lib/upload-snapshots";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { code } = await params;
+
+    const snapshot = await findSnapshot(user, code);
+    const rows = await loadSnapshotRows(user, code);
+
+    return NextResponse.json({ snapshot, rows: rows.map(serializeReport) });
+  } catch (error: any) {
+    console.error("Failed to load upload", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load upload";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Upload History API Route
+ *
+ * - GET: Search upload snapshots, newest first
+ *   Query params (all optional): uploader (email, partial match), fileName
+ *   (partial match), from/to (YYYY-MM-DD, inclusive, on the upload time),
+ *   limit (default 50, max 200) and cursor (the nextCursor of the previous page)
+ *
+ * Requires reports:read. Users without areas:all only see their own uploads.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { parseDayParam } from "@/lib/report-dates";
+import { snapshotScopeWhere } from "@/lib/upload-snapshots";
+import { requireUser } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const params = req.nextUrl.searchParams;
+    const param = (name: string) => params.get(name)?.trim() || undefined;
+
+    const where: Prisma.UploadSnapshotWhereInput = { ...snapshotScopeWhere(user) };
+
+    const uploader = param("uploader");
+    if (uploader) where.AND = [{ uploadedBy: { contains: uploader, mode: "insensitive" } }];
+
+    const fileName = param("fileName");
+    if (fileName) where.fileName = { contains: fileName, mode: "insensitive" };
+
+    const from = param("from");
+    const to = param("to");
+    if (from || to) {
+      where.uploadedAt = {
+        ...(from ? { gte: parseDayParam("from", from) } : {}),
+        // Inclusive: everything before the start of the following day
+        ...(to ? { lt: new Date(parseDayParam("to", to).getTime() + 24 * 60 * 60 * 1000) } : {}),
+      };
+    }
+
+    const requestedLimit = Number(param("limit") ?? DEFAULT_PAGE_SIZE);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(Math.trunc(requestedLimit), 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+    const cursor = param("cursor");
+
+    const snapshots = await prisma.uploadSnapshot.findMany({
+      where,
+      orderBy: [{ uploadedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = snapshots.length > limit;
+    const page = hasMore ? snapshots.slice(0, limit) : snapshots;
+
+    return NextResponse.json({
+      snapshots: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error: any) {
+    console.error("Failed to load uploads", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load uploads";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
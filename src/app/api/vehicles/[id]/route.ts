@@ -0,0 +1,153 @@
+/**
+ * Single Vehicle API Route
+ *
+ * - GET: Vehicle with its assignment history and report count
+ * - PATCH: Change attributes (from an effective date) or active status
+ * - DELETE: Remove a vehicle that has no report rows
+ *
+ * GET requires reports:read and the vehicle's area to be in the user's scope;
+ * PATCH and DELETE require vehicles:manage. An attribute change closes the
+ * current assignment the day the new one starts, so reports dated before it
+ * keep resolving to the old area, tanker type and transporter.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { resolveMasterData } from "@/lib/master-data";
+import { prisma } from "@/lib/prisma";
+import { formatReportDate } from "@/lib/report-dates";
+import { getAreaScope, requireUser } from "@/lib/users";
+import { parseEffectiveFrom, parseVehicleAttributes, type VehicleAttributes } from "@/lib/vehicles";
+
+export const dynamic = "force-dynamic";
+
+const ATTRIBUTE_FIELDS = ["area", "tankerType", "transporterName", "capacityLitres"] as const;
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { id } = await params;
+
+    const vehicle = await prisma.vehicle.findUnique({
+      where: { id },
+      include: {
+        assignments: { orderBy: { effectiveFrom: "desc" } },
+        _count: { select: { reports: true } },
+      },
+    });
+
+    const scope = getAreaScope(user);
+    if (!vehicle || (scope && !scope.includes(vehicle.area))) {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ vehicle });
+  } catch (error: any) {
+    console.error("Failed to load vehicle", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to load vehicle";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requireUser(req, "vehicles:manage");
+    const { id } = await params;
+    const body = await req.json();
+
+    if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+    }
+
+    const attributes = parseVehicleAttributes(body, true);
+
+    const vehicle = await prisma.$transaction(async (tx) => {
+      const current = await tx.vehicle.findUnique({
+        where: { id },
+        include: { assignments: { orderBy: { effectiveFrom: "desc" }, take: 1 } },
+      });
+      if (!current) {
+        throw Object.assign(new Error("Vehicle not found"), { statusCode: 404 });
+      }
+
+      const [next] = await resolveMasterData<VehicleAttributes>([
+        {
+          area: current.area,
+          tankerType: current.tankerType,
+          transporterName: current.transporterName,
+          capacityLitres: current.capacityLitres,
+          ...attributes,
+        },
+      ], current);
+      const changed = ATTRIBUTE_FIELDS.some((field) => next[field] !== current[field]);
+
+      if (!changed && body.isActive === undefined) {
+        throw Object.assign(new Error("Nothing to update"), { statusCode: 400 });
+      }
+
+      if (changed) {
+        const effectiveFrom = parseEffectiveFrom(body.effectiveFrom);
+        const latest = current.assignments[0];
+
+        if (latest && effectiveFrom < latest.effectiveFrom) {
+          throw Object.assign(
+            new Error(`effectiveFrom can't be before the current assignment (${formatReportDate(latest.effectiveFrom)})`),
+            { statusCode: 400 }
+          );
+        }
+
+        if (latest && effectiveFrom.getTime() === latest.effectiveFrom.getTime()) {
+          // Same start date: correct the current assignment instead of stacking a new one
+          await tx.vehicleAssignment.update({ where: { id: latest.id }, data: { ...next, createdBy: admin.email } });
+        } else {
+          if (latest) {
+            await tx.vehicleAssignment.update({ where: { id: latest.id }, data: { effectiveTo: effectiveFrom } });
+          }
+          await tx.vehicleAssignment.create({
+            data: { vehicleId: id, ...next, effectiveFrom, createdBy: admin.email },
+          });
+        }
+      }
+
+      return tx.vehicle.update({
+        where: { id },
+        data: { ...next, ...(body.isActive !== undefined ? { isActive: body.isActive } : {}) },
+        include: { assignments: { orderBy: { effectiveFrom: "desc" } } },
+      });
+    });
+
+    return NextResponse.json({ success: true, vehicle });
+  } catch (error: any) {
+    console.error("Failed to update vehicle", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to update vehicle";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireUser(req, "vehicles:manage");
+    const { id } = await params;
+
+    const reportCount = await prisma.report.count({ where: { vehicleId: id } });
+    if (reportCount > 0) {
+      return NextResponse.json(
+        { error: `Vehicle has ${reportCount} report row(s); deactivate it instead` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.vehicle.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "P2025") {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+    console.error("Failed to delete vehicle", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to delete vehicle";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Vehicle Number Merge API Route
+ *
+ * - GET: List vehicle numbers that aren't in canonical form, grouped by the
+ *        canonical number they normalise to
+ * - POST: Fold every report row of one vehicle number into another (a rename
+ *         when the target has no rows)
+ *
+ * Requires vehicles:manage. POST body:
+ *   { from, to, onConflict?: "source" | "target",
+ *     resolutions?: { "DD-MM-YYYY": "source" | "target" }, dryRun?: boolean }
+ * `from` is matched exactly as stored; `to` is canonicalised. When both numbers
+ * have a row on the same date, the row to keep must be chosen per date in
+ * `resolutions` or for all dates with `onConflict`; otherwise nothing changes
+ * and the response (409) lists the collisions. With dryRun the plan is returned
+ * without writing. Rows in the recycle bin are left out. A source row that
+ * loses, or whose values replace the target's row, goes to the recycle bin
+ * under its old number; a target row in the recycle bin on a source row's date
+ * comes back with the source row's values. Every change is recorded in the
+ * audit log and the version history, and the registry entry for `from` is
+ * renamed or folded into the target's.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { Report } from "@prisma/client";
+
+import { getAuditContext, recordAuditEvents, reportAuditEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { LIVE_REPORTS } from "@/lib/recycle-bin";
+import { formatReportDate, parseReportDate, serializeReport } from "@/lib/report-dates";
+import { archiveReportVersions, NEXT_VERSION } from "@/lib/report-versions";
+import { requireUser } from "@/lib/users";
+import { canonicalVehicleNo, linkVehicles } from "@/lib/vehicles";
+
+export const dynamic = "force-dynamic";
+
+type KeepChoice = "source" | "target";
+
+const KEEP_CHOICES: KeepChoice[] = ["source", "target"];
+
+/**
+ * Parse the per-date collision choices, keyed by time of the UTC-midnight date
+ * @throws Error with statusCode 400 for an invalid date or choice
+ */
+function parseResolutions(value: unknown): Map<number, KeepChoice> {
+  const resolutions = new Map<number, KeepChoice>();
+  if (value === undefined || value === null) return resolutions;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw Object.assign(new Error("resolutions must be an object of date: \"source\" | \"target\""), { statusCode: 400 });
+  }
+
+  for (const [rawDate, choice] of Object.entries(value)) {
+    const date = parseReportDate(rawDate);
+    if (!date || !KEEP_CHOICES.includes(choice as KeepChoice)) {
+      throw Object.assign(new Error(`Invalid resolution for ${rawDate}`), { statusCode: 400 });
+    }
+    resolutions.set(date.getTime(), choice as KeepChoice);
+  }
+  return resolutions;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireUser(req, "vehicles:manage");
+
+    const counts = await prisma.report.groupBy({
+      by: ["vehicleNo"],
+      where: LIVE_REPORTS,
+      _count: { _all: true },
+      orderBy: { vehicleNo: "asc" },
+    });
+
+    const byCanonical = new Map<string, Array<{ vehicleNo: string; reportCount: number }>>();
+    for (const entry of counts) {
+      const canonical = canonicalVehicleNo(entry.vehicleNo);
+      const variants = byCanonical.get(canonical) ?? [];
+      variants.push({ vehicleNo: entry.vehicleNo, reportCount: entry._count._all });
+      byCanonical.set(canonical, variants);
+    }
+
+    const groups = Array.from(byCanonical.entries())
+      .filter(([canonical, variants]) => variants.length > 1 || variants[0].vehicleNo !== canonical)
+      .map(([canonical, variants]) => ({ canonical, variants }));
+
+    return NextResponse.json({ groups });
+  } catch (error: any) {
+    console.error("Failed to list vehicle number variants", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list vehicle number variants";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireUser(req, "vehicles:manage");
+    const body = await req.json();
+
+    const from = String(body.from ?? "").trim();
+    const to = canonicalVehicleNo(body.to);
+    if (!from || !to) {
+      return NextResponse.json({ error: "from and to are required" }, { status: 400 });
+    }
+    if (from === to) {
+      return NextResponse.json({ error: "from and to are the same vehicle number" }, { status: 400 });
+    }
+    if (body.onConflict !== undefined && !KEEP_CHOICES.includes(body.onConflict)) {
+      return NextResponse.json({ error: "onConflict must be \"source\" or \"target\"" }, { status: 400 });
+    }
+    const onConflict: KeepChoice | undefined = body.onConflict;
+    const resolutions = parseResolutions(body.resolutions);
+    const dryRun = body.dryRun === true;
+
+    const audit = getAuditContext(admin, req);
+    const result = await prisma.$transaction(async (tx) => {
+      const sourceRows = await tx.report.findMany({
+        where: { vehicleNo: from, ...LIVE_REPORTS },
+        orderBy: { reportDate: "asc" },
+      });
+      const sourceVehicle = await tx.vehicle.findUnique({ where: { registrationNo: from } });
+      if (sourceRows.length === 0 && !sourceVehicle) {
+        throw Object.assign(new Error(`No reports or vehicle found for ${from}`), { statusCode: 404 });
+      }
+
+      // Rows in the recycle bin still hold their vehicle/date key, so they're loaded too
+      const targetRows = await tx.report.findMany({
+        where: { vehicleNo: to, reportDate: { in: sourceRows.map((row) => row.reportDate) } },
+      });
+      const targetByDate = new Map(targetRows.map((row) => [row.reportDate.getTime(), row]));
+
+      const moving: Report[] = [];                                     // Renamed to the target number
+      const copying: Array<{ source: Report; target: Report }> = [];   // Target row takes the source's values
+      const discarded: Report[] = [];                                  // Lost to the target's row
+      const collisions = [];
+      let unresolved = 0;
+
+      for (const row of sourceRows) {
+        const target = targetByDate.get(row.reportDate.getTime());
+        if (!target) {
+          moving.push(row);
+          continue;
+        }
+        if (target.deletedAt) {
+          // The target's row for this date is in the recycle bin: it comes back with the source's values
+          copying.push({ source: row, target });
+          continue;
+        }
+
+        const keep = resolutions.get(row.reportDate.getTime()) ?? onConflict ?? null;
+        collisions.push({
+          reportDate: formatReportDate(row.reportDate),
+          source: serializeReport(row),
+          target: serializeReport(target),
+          keep,
+        });
+        if (keep === "source") {
+          copying.push({ source: row, target });
+        } else if (keep === "target") {
+          discarded.push(row);
+        } else {
+          unresolved += 1;
+        }
+      }
+
+      if (unresolved > 0) {
+        throw Object.assign(
+          new Error(`${unresolved} date(s) have rows for both ${from} and ${to}; choose which row to keep`),
+          { statusCode: 409, collisions }
+        );
+      }
+
+      const plan = {
+        from,
+        to,
+        moved: moving.length + copying.filter(({ target }) => target.deletedAt).length,
+        replaced: copying.filter(({ target }) => !target.deletedAt).length,
+        discarded: discarded.length,
+        collisions,
+      };
+      if (dryRun) return plan;
+
+      // Registry: rename the source's entry, or fold it into the target's
+      let targetVehicle = await tx.vehicle.findUnique({ where: { registrationNo: to } });
+      if (!targetVehicle && sourceVehicle) {
+        targetVehicle = await tx.vehicle.update({ where: { id: sourceVehicle.id }, data: { registrationNo: to } });
+      }
+      const linking = [...moving, ...copying.map(({ source }) => source)];
+      const vehicleId =
+        targetVehicle?.id ??
+        (linking.length > 0
+          ? (await linkVehicles(tx, linking.map((row) => ({ ...row, vehicleNo: to })), admin.email)).get(to) ?? null
+          : null);
+
+      // Source rows that weren't renamed go to the recycle bin under their old number
+      const binned = [...discarded, ...copying.map(({ source }) => source)];
+      const deletedAt = new Date();
+      if (binned.length > 0) {
+        await tx.report.updateMany({
+          where: { id: { in: binned.map((row) => row.id) } },
+          data: { deletedAt, deletedBy: admin.email },
+        });
+      }
+
+      await archiveReportVersions(tx, [...moving, ...copying.map(({ target }) => target)], admin.email);
+      if (moving.length > 0) {
+        await tx.report.updateMany({
+          where: { id: { in: moving.map((row) => row.id) } },
+          data: { vehicleNo: to, vehicleId, ...NEXT_VERSION },
+        });
+      }
+      const copied = [];
+      for (const { source, target } of copying) {
+        const updated = await tx.report.update({
+          where: { id: target.id },
+          data: {
+            area: source.area,
+            tankerType: source.tankerType,
+            transporterName: source.transporterName,
+            tripDistance: source.tripDistance,
+            distanceUnit: source.distanceUnit,
+            tripCount: source.tripCount,
+            snapshotCode: source.snapshotCode,
+            uploadedBy: source.uploadedBy,
+            uploadedAt: source.uploadedAt,
+            vehicleId,
+            deletedAt: null,
+            deletedBy: null,
+            ...NEXT_VERSION,
+          },
+        });
+        copied.push({ before: target, after: updated });
+      }
+
+      if (sourceVehicle && targetVehicle && sourceVehicle.id !== targetVehicle.id) {
+        await tx.vehicle.delete({ where: { id: sourceVehicle.id } });
+      }
+
+      await recordAuditEvents(tx, [
+        ...binned.map((row) => reportAuditEvent(audit, "REPORT_DELETE", row, null)),
+        ...moving.map((row) => reportAuditEvent(audit, "REPORT_UPDATE", row, { ...row, vehicleNo: to, vehicleId })),
+        ...copied.map(({ before, after }) => reportAuditEvent(audit, "REPORT_UPDATE", before, after)),
+      ]);
+
+      return plan;
+    }, { timeout: 30_000 });
+
+    return NextResponse.json({ success: true, dryRun, ...result });
+  } catch (error: any) {
+    console.error("Failed to merge vehicle numbers", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to merge vehicle numbers";
+    return NextResponse.json({ error: message, collisions: error?.collisions }, { status });
+  }
+}
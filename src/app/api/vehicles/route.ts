@@ -0,0 +1,98 @@
+/**
+ * Vehicle Registry API Route
+ *
+ * - GET: List vehicles (optional q, area and active filters)
+ * - POST: Register a vehicle with its first assignment
+ *
+ * Listing requires reports:read and is limited to the user's areas;
+ * registering requires vehicles:manage. Area and transporter must resolve to
+ * entries of the master data lists. Existing report rows for the
+ * registration number are linked to the new vehicle.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { resolveMasterData } from "@/lib/master-data";
+import { prisma } from "@/lib/prisma";
+import { getAreaScope, requireUser } from "@/lib/users";
+import { canonicalVehicleNo, parseEffectiveFrom, parseVehicleAttributes } from "@/lib/vehicles";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req, "reports:read");
+    const { searchParams } = new URL(req.url);
+
+    const clauses: Prisma.VehicleWhereInput[] = [];
+    const scope = getAreaScope(user);
+    if (scope) clauses.push({ area: { in: scope } });
+
+    const q = searchParams.get("q")?.trim();
+    if (q) clauses.push({ registrationNo: { contains: q, mode: "insensitive" } });
+
+    const area = searchParams.get("area")?.trim();
+    if (area && area !== "all") clauses.push({ area });
+
+    const active = searchParams.get("active");
+    if (active === "true" || active === "false") clauses.push({ isActive: active === "true" });
+
+    const vehicles = await prisma.vehicle.findMany({
+      where: { AND: clauses },
+      orderBy: { registrationNo: "asc" },
+    });
+
+    return NextResponse.json({ vehicles });
+  } catch (error: any) {
+    console.error("Failed to list vehicles", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to list vehicles";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireUser(req, "vehicles:manage");
+    const body = await req.json();
+
+    const registrationNo = canonicalVehicleNo(body.registrationNo);
+    if (!registrationNo) {
+      return NextResponse.json({ error: "registrationNo is required" }, { status: 400 });
+    }
+    if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+    }
+
+    const [attributes] = await resolveMasterData([parseVehicleAttributes(body)]);
+    const effectiveFrom = parseEffectiveFrom(body.effectiveFrom);
+
+    const vehicle = await prisma.$transaction(async (tx) => {
+      const created = await tx.vehicle.create({
+        data: {
+          registrationNo,
+          ...attributes,
+          isActive: body.isActive ?? true,
+          assignments: { create: { ...attributes, effectiveFrom, createdBy: admin.email } },
+        },
+        include: { assignments: true },
+      });
+      await tx.report.updateMany({
+        where: { vehicleNo: registrationNo, vehicleId: null },
+        data: { vehicleId: created.id },
+      });
+      return created;
+    });
+
+    return NextResponse.json({ success: true, vehicle }, { status: 201 });
+  } catch (error: any) {
+    if (error?.code === "P2002") {
+      return NextResponse.json({ error: "A vehicle with this registration number already exists" }, { status: 409 });
+    }
+    console.error("Failed to create vehicle", error);
+    const status = typeof error?.statusCode === "number" ? error.statusCode : 500;
+    const message = status < 500 && error?.message ? error.message : "Failed to create vehicle";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getAppUrl } from '@/lib/mail';
+import { sendVerificationEmail } from '@/lib/user-tokens';
+
+export const dynamic = 'force-dynamic';
+
+// Always answers the same way so the response doesn't reveal which emails have accounts
+export async function POST(req: NextRequest) {
+  try {
+    const { email } = await req.json();
+    if (!email) {
+      return NextResponse.json({ message: 'email required' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: String(email).trim().toLowerCase() } });
+    if (user && user.isActive && !user.emailVerifiedAt) {
+      await sendVerificationEmail(user, getAppUrl());
+    }
+
+    return NextResponse.json(
+      { message: 'If the account still needs verification, a new link has been sent' },
+      { status: 200 }
+    );
+  } catch (e: any) {
+    console.error('Failed to resend verification email', e);
+    return NextResponse.json({ message: 'Could not send verification email' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { consumeUserToken } from '@/lib/user-tokens';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { token } = await req.json();
+    if (!token) {
+      return NextResponse.json({ message: 'token required' }, { status: 400 });
+    }
+
+    const userId = await consumeUserToken(token, 'EMAIL_VERIFICATION');
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true, email: user.email }, { status: 200 });
+  } catch (e: any) {
+    const status = typeof e?.statusCode === 'number' ? e.statusCode : 500;
+    if (status >= 500) console.error('Failed to verify email', e);
+    return NextResponse.json({ message: status < 500 ? e.message : 'Email verification failed' }, { status });
+  }
+}
@@ -0,0 +1,335 @@
+"use client";
+import { FormEvent, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { authFetch } from "@/lib/auth-fetch";
+
+type AuditEvent = {
+  id: string;
+  occurredAt: string;
+  action: string;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  targetType: string;
+  targetId: string | null;
+  vehicleNo: string | null;
+  reportDate: string | null;
+  area: string | null;
+  snapshotCode: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+type AuditFilters = {
+  action: string;
+  actor: string;
+  vehicleNo: string;
+  reportDate: string;
+  area: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  actor: "",
+  vehicleNo: "",
+  reportDate: "",
+  area: "",
+  from: "",
+  to: "",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  REPORT_CREATE: "Row created",
+  REPORT_UPSERT: "Row uploaded",
+  REPORT_UPDATE: "Row edited",
+  REPORT_DELETE: "Row deleted",
+  REPORT_RESTORE: "Row restored from recycle bin",
+  REPORT_PURGE: "Row purged",
+  REPORT_ROLLBACK: "Upload rolled back",
+  PDF_GENERATE: "PDF generated",
+};
+
+// Bookkeeping fields that change on every write; left out of the change list
+const IGNORED_FIELDS = new Set(["uploadedAt"]);
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) return value;
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  const ss = String(date.getSeconds()).padStart(2, "0");
+  return `${dd}-${mm}-${date.getFullYear()} ${hh}:${min}:${ss}`;
+};
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? "—" : String(value));
+
+/**
+ * List the fields an event changed as "field: old → new" (or "field: value" for creates and deletes)
+ */
+function describeChanges(event: AuditEvent): string[] {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !IGNORED_FIELDS.has(field));
+
+  if (!event.before || !event.after) {
+    const values = event.after ?? event.before ?? {};
+    return fields.map((field) => `${field}: ${formatValue(values[field])}`);
+  }
+
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => `${field}: ${formatValue(before[field])} → ${formatValue(after[field])}`);
+}
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!localStorage.getItem("accessToken")) {
+      router.replace("/login");
+      return;
+    }
+    loadEvents(EMPTY_FILTERS, null);
+  }, [router]);
+
+  async function loadEvents(activeFilters: AuditFilters, cursor: string | null) {
+    try {
+      setLoading(true);
+      setPageError(null);
+
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(activeFilters)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      if (cursor) params.set("cursor", cursor);
+
+      const res = await authFetch(`/api/audit?${params.toString()}`);
+      if (res.status === 401) {
+        router.replace("/login");
+        return;
+      }
+      const payload = await res.json();
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to load audit log");
+      }
+
+      setEvents((prev) => (cursor ? [...prev, ...payload.events] : payload.events));
+      setNextCursor(payload.nextCursor);
+    } catch (e) {
+      console.error("Failed to load audit log:", e);
+      setPageError(e instanceof Error ? e.message : "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleSearch(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setAppliedFilters(filters);
+    loadEvents(filters, null);
+  }
+
+  function handleReset() {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    loadEvents(EMPTY_FILTERS, null);
+  }
+
+  const updateFilter = (key: keyof AuditFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const inputClassName =
+    "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+        <h1 className="text-2xl font-bold">Audit Log</h1>
+        <button
+          onClick={() => router.push("/")}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Back to reports
+        </button>
+      </div>
+
+      {pageError && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {pageError}
+        </div>
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="mb-6 p-4 border rounded-lg bg-white shadow">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Action
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter("action", e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">All actions</option>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            User
+            <input
+              value={filters.actor}
+              onChange={(e) => updateFilter("actor", e.target.value)}
+              placeholder="Email"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Vehicle No
+            <input
+              value={filters.vehicleNo}
+              onChange={(e) => updateFilter("vehicleNo", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Report Date
+            <input
+              value={filters.reportDate}
+              onChange={(e) => updateFilter("reportDate", e.target.value)}
+              placeholder="DD-MM-YYYY"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Area
+            <input
+              value={filters.area}
+              onChange={(e) => updateFilter("area", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Search
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={loading}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Events Table */}
+      <div className="border rounded-lg bg-white shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Target</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">IP Address</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.map((event, idx) => (
+                <tr key={event.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDateTime(event.occurredAt)}</td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{ACTION_LABELS[event.action] ?? event.action}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {event.actorEmail ?? "—"}
+                    {event.apiKeyId && <span className="block text-xs text-gray-500">via API key</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {event.targetType === "Report"
+                      ? `${event.vehicleNo ?? ""} on ${event.reportDate ?? ""}`
+                      : `PDF ${String(event.after?.verificationCode ?? event.targetId ?? "")}`}
+                    {event.area && <span className="block text-xs text-gray-500">{event.area}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <ul className="space-y-0.5">
+                      {describeChanges(event).map((change) => (
+                        <li key={change} className="font-mono text-xs">
+                          {change}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="px-4 py-3 text-sm" title={event.userAgent ?? undefined}>
+                    {event.ipAddress ?? "—"}
+                  </td>
+                </tr>
+              ))}
+              {!loading && events.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                    No audit events match these filters
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {loading && <div className="mt-4 text-sm text-gray-600">Loading…</div>}
+      {nextCursor && !loading && (
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => loadEvents(appliedFilters, nextCursor)}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -3,12 +3,24 @@
 import { FormEvent, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 
+import { storeSession } from "@/lib/auth-fetch";
+
 export default function LoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [needsVerification, setNeedsVerification] = useState(false);
+
+  // Two-factor second step
+  const [mfaStep, setMfaStep] = useState<"verify" | "enroll" | null>(null);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   useEffect(() => {
     const token = typeof window !== "undefined" ? localStorage.getItem("accessToken") : null;
@@ -22,6 +34,8 @@ export default function LoginPage() {
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setError(null);
+    setNotice(null);
+    setNeedsVerification(false);
 
     if (!email.trim() || !password) {
       setError("Email and password are required");
@@ -39,13 +53,22 @@ export default function LoginPage() {
       const payload = await response.json();
 
       if (!response.ok) {
+        setNeedsVerification(Boolean(payload?.emailNotVerified));
         throw new Error(payload?.message || "Invalid credentials");
       }
 
-      localStorage.setItem("accessToken", payload.accessToken);
-      localStorage.setItem("userEmail", email.trim());
+      if (payload.mfaRequired) {
+        setMfaToken(payload.mfaToken);
+        setMfaStep("verify");
+        return;
+      }
 
-      router.replace("/");
+      if (payload.mfaEnrollmentRequired) {
+        await startEnrollment(payload.mfaToken);
+        return;
+      }
+
+      finishLogin(payload);
     } catch (err) {
       console.error("Login failed", err);
       setError(err instanceof Error ? err.message : "Login failed");
@@ -54,64 +77,252 @@ export default function LoginPage() {
     }
   }
 
+  function finishLogin(session: { accessToken: string; refreshToken?: string }) {
+    storeSession(session);
+    localStorage.setItem("userEmail", email.trim());
+    router.replace("/");
+  }
+
+  async function startEnrollment(token: string) {
+    const response = await fetch("/api/two-factor/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mfaToken: token }),
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      throw new Error(payload?.message || "Could not start two-factor setup");
+    }
+    setMfaToken(token);
+    setEnrollment(payload);
+    setMfaStep("enroll");
+  }
+
+  async function handleSecondStep(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? "Enter a recovery code" : "Enter the code from your authenticator app");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await fetch("/api/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          useRecoveryCode ? { mfaToken, recoveryCode: code.trim() } : { mfaToken, code: code.trim() }
+        ),
+      });
+      const payload = await response.json();
+
+      if (!response.ok) {
+        throw new Error(payload?.message || "Invalid authentication code");
+      }
+
+      if (payload.recoveryCodes) {
+        // Newly enrolled: show the recovery codes before continuing
+        storeSession(payload);
+        localStorage.setItem("userEmail", email.trim());
+        setRecoveryCodes(payload.recoveryCodes);
+        return;
+      }
+
+      finishLogin(payload);
+    } catch (err) {
+      console.error("Two-factor verification failed", err);
+      setError(err instanceof Error ? err.message : "Two-factor verification failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function resetToPasswordStep() {
+    setMfaStep(null);
+    setMfaToken(null);
+    setCode("");
+    setUseRecoveryCode(false);
+    setEnrollment(null);
+    setError(null);
+  }
+
+  async function handleResendVerification() {
+    try {
+      const response = await fetch("/api/verify-email/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload?.message || "Could not send verification email");
+      }
+      setError(null);
+      setNotice(payload.message);
+    } catch (err) {
+      console.error("Resend verification failed", err);
+      setError(err instanceof Error ? err.message : "Could not send verification email");
+    }
+  }
+
   return (
     <main className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
       <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8">
         <h1 className="text-2xl font-semibold text-center mb-6">DJB Daily Distance Reports</h1>
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(event) => setEmail(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="you@example.com"
-              autoComplete="email"
-              required
-            />
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Two-factor authentication is on. Save these recovery codes somewhere safe; each one can be used
+              once to sign in if you lose your authenticator app. They won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border rounded-md p-3">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() => router.replace("/")}
+              className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700"
+            >
+              I&apos;ve saved my codes, continue
+            </button>
           </div>
+        ) : mfaStep ? (
+          <form onSubmit={handleSecondStep} className="space-y-5">
+            {mfaStep === "enroll" && enrollment && (
+              <div className="space-y-2 text-sm text-gray-700">
+                <p>
+                  Your account requires two-factor authentication. Add this account to an authenticator app
+                  (e.g. Google Authenticator, 1Password) with the setup key below, then enter the 6-digit code it shows.
+                </p>
+                <p className="font-mono break-all bg-gray-50 border rounded-md p-2">{enrollment.secret}</p>
+                <a href={enrollment.otpauthUrl} className="font-medium text-blue-600 hover:text-blue-700">
+                  Open in authenticator app
+                </a>
+              </div>
+            )}
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </label>
+              <input
+                id="code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                autoComplete="one-time-code"
+                autoFocus
+                required
+              />
+            </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(event) => setPassword(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Enter password"
-              autoComplete="current-password"
-              required
-            />
-          </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
 
-          {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Verifying..." : "Verify"}
+            </button>
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
-          >
-            {loading ? "Signing in..." : "Sign In"}
-          </button>
-        </form>
+            <div className="flex justify-between text-sm">
+              {mfaStep === "verify" ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </button>
+              ) : (
+                <span />
+              )}
+              <button
+                type="button"
+                onClick={resetToPasswordStep}
+                className="font-medium text-gray-600 hover:text-gray-800"
+              >
+                Back
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="you@example.com"
+                autoComplete="email"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Enter password"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {needsVerification && (
+              <button
+                type="button"
+                onClick={handleResendVerification}
+                className="text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                Resend verification email
+              </button>
+            )}
+            {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Signing in..." : "Sign In"}
+            </button>
+          </form>
+        )}
 
         <p className="mt-6 text-center text-sm text-gray-600">
-          Need an account?{" "}
           <button
             type="button"
-            onClick={() => router.push("/signup")}
+            onClick={() => router.push("/forgot-password")}
             className="font-medium text-blue-600 hover:text-blue-700"
           >
-            Sign up
+            Forgot password?
           </button>
         </p>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          Need an account? Ask an administrator for an invite link.
+        </p>
       </div>
     </main>
   );
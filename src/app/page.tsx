@@ -2,6 +2,10 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 
+import { authFetch, signOut } from "@/lib/auth-fetch";
+import { DISTANCE_UNITS, DISTANCE_UNIT_LABELS, formatDistance, type DistanceUnit } from "@/lib/distance";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
 type ReportRow = {
   id: string;
   area: string;
@@ -9,11 +13,71 @@ type ReportRow = {
   tankerType: string;
   transporterName: string;
   reportDate: string;
-  tripDistanceKm: string;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
   tripCount: number;
+  version: number;
+};
+
+// Earlier values of a row, as returned by /api/reports/data/[id]/history
+type ReportVersionRow = ReportRow & {
+  snapshotCode: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  replacedAt: string;
+  replacedBy: string | null;
 };
 
-type ReportRowForm = Omit<ReportRow, "tripCount" | "id"> & { tripCount: string };
+// Result of POST /api/reports/data?preview=true, shown before the upload is saved
+type UploadPreview = {
+  previewId: string;
+  fileName: string | null;
+  conflictPolicy: ConflictPolicy;
+  summary: {
+    rows: number;
+    new: number;
+    restored: number;
+    unchanged: number;
+    conflicts: number;
+    overwritten: number;
+    kept: number;
+    skipped: number;
+  };
+  skipped: { sheet: string | null; rowNumber: number | null; reason: string }[];
+  conflicts: {
+    existing: ReportRow;
+    uploaded: ReportRow;
+    saved: ReportRow | null;
+    fields: string[];
+    resolution: "overwritten" | "kept" | "larger" | "failed";
+  }[];
+  suggestedProfile: { id: string; name: string; rowCount: number } | null;
+};
+
+// What an upload does with rows that already exist with other values
+type ConflictPolicy = "OVERWRITE" | "KEEP_EXISTING" | "FAIL" | "LARGER";
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  OVERWRITE: "Overwrite existing rows",
+  KEEP_EXISTING: "Keep existing rows",
+  FAIL: "Reject upload on conflicts",
+  LARGER: "Keep the larger values",
+};
+
+const CONFLICT_RESOLUTION_LABELS: Record<UploadPreview["conflicts"][number]["resolution"], string> = {
+  overwritten: "Overwritten",
+  kept: "Existing kept",
+  larger: "Larger values",
+  failed: "Rejects upload",
+};
+
+// Saved column layout for vendor files, from /api/column-mappings
+type MappingProfile = { id: string; name: string };
+
+type ReportRowForm = Omit<ReportRow, "tripCount" | "tripDistance" | "id" | "version"> & {
+  tripDistance: string;
+  tripCount: string;
+};
 
 const EMPTY_FORM: ReportRowForm = {
   area: "",
@@ -21,7 +85,8 @@ const EMPTY_FORM: ReportRowForm = {
   tankerType: "",
   transporterName: "",
   reportDate: "",
-  tripDistanceKm: "",
+  tripDistance: "",
+  distanceUnit: "KM",
   tripCount: "",
 };
 
@@ -55,7 +120,8 @@ const formFromRow = (row: ReportRow): ReportRowForm => ({
   tankerType: row.tankerType ?? "",
   transporterName: row.transporterName ?? "",
   reportDate: convertToInputFormat(row.reportDate ?? ""),
-  tripDistanceKm: row.tripDistanceKm ?? "",
+  tripDistance: row.tripDistance != null ? String(row.tripDistance) : "",
+  distanceUnit: row.distanceUnit ?? "KM",
   tripCount: row.tripCount != null ? String(row.tripCount) : "",
 });
 
@@ -63,6 +129,10 @@ export default function ReportsPage() {
   const router = useRouter();
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [uploadPreview, setUploadPreview] = useState<UploadPreview | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [mappingProfileId, setMappingProfileId] = useState(""); // "" = built-in headers
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>("OVERWRITE");
   const [data, setData] = useState<ReportRow[]>([]);
   const [filteredData, setFilteredData] = useState<ReportRow[]>([]);
   const [vehicles, setVehicles] = useState<string[]>([]);
@@ -92,12 +162,18 @@ export default function ReportsPage() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [userEmail, setUserEmail] = useState("");
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [userAreas, setUserAreas] = useState<string[] | null>(null); // null = every area
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingRowId, setEditingRowId] = useState<string | null>(null);
   const [formState, setFormState] = useState<ReportRowForm>(EMPTY_FORM);
   const [formError, setFormError] = useState<string | null>(null);
   const [pageError, setPageError] = useState<string | null>(null);
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [historyRow, setHistoryRow] = useState<ReportRow | null>(null);
+  const [historyVersions, setHistoryVersions] = useState<ReportVersionRow[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -113,8 +189,29 @@ export default function ReportsPage() {
     if (storedEmail) {
       setUserEmail(storedEmail);
     }
+
+    loadCurrentUser();
   }, [router]);
 
+  const can = (permission: Permission) => hasPermission(userRole, permission);
+
+  async function loadCurrentUser() {
+    try {
+      const res = await authFetch("/api/me");
+      if (res.status === 401) {
+        handleSignOut();
+        return;
+      }
+      if (!res.ok) return;
+      const me = await res.json();
+      setUserRole(me.role ?? null);
+      setUserAreas(Array.isArray(me.areas) ? me.areas : null);
+      if (me.email) setUserEmail(me.email);
+    } catch (e) {
+      console.error("Failed to load current user:", e);
+    }
+  }
+
   const parseDateString = (value: string): Date | null => {
     if (!value) return null;
 
@@ -144,6 +241,15 @@ export default function ReportsPage() {
     loadData();
   }, []);
 
+  // Column mapping profiles offered when uploading
+  useEffect(() => {
+    if (!hasPermission(userRole, "reports:write")) return;
+    authFetch("/api/column-mappings")
+      .then((res) => (res.ok ? res.json() : { profiles: [] }))
+      .then((payload) => setMappingProfiles(payload.profiles ?? []))
+      .catch((e) => console.error("Failed to load column mapping profiles:", e));
+  }, [userRole]);
+
   // Apply filters whenever data or filters change
   useEffect(() => {
     applyFilters();
@@ -160,7 +266,11 @@ export default function ReportsPage() {
           return;
         }
       }
-      const res = await fetch("/api/reports/data");
+      const res = await authFetch("/api/reports/data");
+      if (res.status === 401) {
+        handleSignOut();
+        return;
+      }
       if (res.ok) {
         const records = (await res.json()) as ReportRow[];
         setData(records);
@@ -342,10 +452,10 @@ export default function ReportsPage() {
     setSaving(true);
     setFormError(null);
     try {
-      const res = await fetch("/api/reports/data", {
+      const res = await authFetch("/api/reports/data", {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: row.id, deletedBy: userEmail }),
+        body: JSON.stringify({ id: row.id }),
       });
 
       if (!res.ok) {
@@ -366,6 +476,67 @@ export default function ReportsPage() {
     }
   };
 
+  const openHistory = async (row: ReportRow) => {
+    setHistoryRow(row);
+    setHistoryVersions([]);
+    setHistoryError(null);
+    setHistoryLoading(true);
+    try {
+      const res = await authFetch(`/api/reports/data/${row.id}/history`);
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to load row history");
+      }
+      setHistoryRow(payload.report);
+      setHistoryVersions(payload.versions);
+    } catch (error) {
+      console.error(error);
+      setHistoryError(error instanceof Error ? error.message : "Failed to load row history");
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleRestoreVersion = async (version: ReportVersionRow) => {
+    if (!historyRow) return;
+
+    if (typeof window !== "undefined") {
+      const confirmed = window.confirm(`Restore version ${version.version} of this row?`);
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    setSaving(true);
+    setHistoryError(null);
+    try {
+      const res = await authFetch(`/api/reports/data/${historyRow.id}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: version.version }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to restore version");
+      }
+      await loadData();
+      await openHistory(payload.record);
+    } catch (error) {
+      console.error(error);
+      setHistoryError(error instanceof Error ? error.message : "Failed to restore version");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDateTime = (value: string) => {
+    const date = new Date(value);
+    if (Number.isNaN(date.valueOf())) return value;
+    const hh = String(date.getHours()).padStart(2, "0");
+    const min = String(date.getMinutes()).padStart(2, "0");
+    return `${formatDisplayDate(value)} ${hh}:${min}`;
+  };
+
   const toggleRowSelection = (rowId: string) => {
     setSelectedRows((prev) => {
       const newSet = new Set(prev);
@@ -399,7 +570,9 @@ export default function ReportsPage() {
     }
 
     if (typeof window !== "undefined") {
-      const confirmed = window.confirm(`Are you sure you want to delete ${selectedRows.size} row(s)?`);
+      const confirmed = window.confirm(
+        `Are you sure you want to delete ${selectedRows.size} row(s)? They can be restored from the recycle bin.`
+      );
       if (!confirmed) {
         return;
       }
@@ -409,24 +582,20 @@ export default function ReportsPage() {
     setPageError(null);
 
     try {
-      const deletePromises = Array.from(selectedRows).map((id) =>
-        fetch("/api/reports/data", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ id, deletedBy: userEmail }),
-        })
-      );
-
-      const results = await Promise.all(deletePromises);
-      const failed = results.filter((r) => !r.ok);
+      const res = await authFetch("/api/reports/data", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selectedRows) }),
+      });
+      const payload = await res.json().catch(() => ({}));
 
-      if (failed.length > 0) {
-        throw new Error(`Failed to delete ${failed.length} row(s)`);
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to delete rows");
       }
 
       setSelectedRows(new Set());
       await loadData();
-      alert(`Successfully deleted ${selectedRows.size} row(s)`);
+      alert(`Moved ${payload.deletedCount ?? selectedRows.size} row(s) to the recycle bin`);
     } catch (error) {
       console.error(error);
       setPageError(error instanceof Error ? error.message : "Failed to delete rows");
@@ -490,7 +659,8 @@ export default function ReportsPage() {
     tankerType: formState.tankerType.trim(),
     transporterName: formState.transporterName.trim(),
     reportDate: convertFromInputFormat(formState.reportDate),
-    tripDistanceKm: formState.tripDistanceKm.trim(),
+    tripDistance: formState.tripDistance ? Number(formState.tripDistance) : 0,
+    distanceUnit: formState.distanceUnit,
     tripCount: formState.tripCount ? Number(formState.tripCount) : 0,
   });
 
@@ -518,16 +688,16 @@ export default function ReportsPage() {
       let res: Response;
 
       if (editingRowId) {
-        res = await fetch("/api/reports/data", {
+        res = await authFetch("/api/reports/data", {
           method: "PATCH",
           headers,
-          body: JSON.stringify({ id: editingRowId, record: payload, updatedBy: userEmail }),
+          body: JSON.stringify({ id: editingRowId, record: payload }),
         });
       } else {
-        res = await fetch("/api/reports/data", {
+        res = await authFetch("/api/reports/data", {
           method: "POST",
           headers,
-          body: JSON.stringify({ record: payload, uploadedBy: userEmail }),
+          body: JSON.stringify({ record: payload }),
         });
       }
 
@@ -591,7 +761,25 @@ export default function ReportsPage() {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
     setFile(selectedFile);
+    // Lets the same file be picked again after a cancelled preview
+    e.target.value = "";
+    await previewUpload(selectedFile, mappingProfileId, conflictPolicy);
+  }
+
+  async function handleConflictPolicyChange(policy: ConflictPolicy) {
+    setConflictPolicy(policy);
+    // A preview is made for one policy, so show it again for the new one
+    if (file && uploadPreview) await previewUpload(file, mappingProfileId, policy);
+  }
+
+  async function handleUseSuggestedProfile() {
+    if (!file || !uploadPreview?.suggestedProfile) return;
+    setMappingProfileId(uploadPreview.suggestedProfile.id);
+    await previewUpload(file, uploadPreview.suggestedProfile.id, conflictPolicy);
+  }
 
+  async function previewUpload(selectedFile: File, profileId: string, policy: ConflictPolicy) {
+    setUploadPreview(null);
     try {
       if (!userEmail) {
         alert("Please sign in before uploading files.");
@@ -601,36 +789,77 @@ export default function ReportsPage() {
       setUploading(true);
       const formData = new FormData();
       formData.append("file", selectedFile);
-      formData.append("uploadedBy", userEmail);
+      if (profileId) formData.append("mappingProfileId", profileId);
+      formData.append("conflictPolicy", policy);
 
-      const res = await fetch("/api/reports/data", {
+      const res = await authFetch("/api/reports/data?preview=true", {
         method: "POST",
         body: formData,
       });
 
       const payload = await res.json();
 
+      if (!res.ok) {
+        const skipped = (payload?.skipped ?? []).length;
+        const suggestion = payload?.suggestedProfile
+          ? `. The column mapping "${payload.suggestedProfile.name}" reads ${payload.suggestedProfile.rowCount} row(s) of this file.`
+          : "";
+        throw new Error(
+          `${payload?.error || "Upload failed"}${skipped ? ` (${skipped} row(s) skipped)` : ""}${suggestion}`
+        );
+      }
+
+      setUploadPreview(payload);
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error ? e.message : "Failed to process file");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleCommitUpload() {
+    if (!uploadPreview) return;
+    try {
+      setUploading(true);
+      const res = await authFetch("/api/reports/data", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ previewId: uploadPreview.previewId }),
+      });
+
+      const payload = await res.json();
+
       if (!res.ok) {
         throw new Error(payload?.error || "Upload failed");
       }
 
-      alert(`Data uploaded successfully! Snapshot code: ${payload.snapshotCode}`);
+      setUploadPreview(null);
+      const conflicts = (payload.conflicts ?? []).length;
+      alert(
+        `Data uploaded successfully! Snapshot code: ${payload.snapshotCode}` +
+          (conflicts ? ` (${conflicts} conflicting row(s) resolved)` : "")
+      );
       loadData();
     } catch (e) {
       console.error(e);
-      alert(e instanceof Error ? e.message : "Failed to process file");
+      alert(e instanceof Error ? e.message : "Failed to save upload");
     } finally {
       setUploading(false);
     }
   }
 
-  function handleSignOut() {
+  async function handleSignOut(everywhere = false) {
     if (typeof window === "undefined") return;
-    localStorage.removeItem("accessToken");
-    localStorage.removeItem("userEmail");
+    await signOut(everywhere);
     router.replace("/login");
   }
 
+  async function handleSignOutEverywhere() {
+    if (!window.confirm("Sign out of every device, including this one?")) return;
+    await handleSignOut(true);
+  }
+
   async function generatePDF() {
     if (filteredData.length === 0) {
       alert("No data to generate PDF");
@@ -688,13 +917,12 @@ export default function ReportsPage() {
         return `${year}-${month}-${day}`;
       };
 
-      const res = await fetch("/api/reports/generate", {
+      const res = await authFetch("/api/reports/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           dateFrom: formatDateForAPI(rangeStart),
           dateTo: formatDateForAPI(rangeEnd),
-          generatedByEmail: userEmail,
           filters: {
             vehicles: selectedVehicles,
             area: selectedArea,
@@ -708,7 +936,7 @@ export default function ReportsPage() {
       const data = await res.json();
       
       // Download PDF
-      const pdfRes = await fetch(data.pdfUrl);
+      const pdfRes = await authFetch(data.pdfUrl);
       if (!pdfRes.ok) {
         throw new Error("Unable to download PDF");
       }
@@ -747,30 +975,209 @@ export default function ReportsPage() {
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
         <h1 className="text-2xl font-bold">Daily Distance Reports</h1>
         <div className="flex items-center gap-3">
-          <span className="text-sm text-gray-600">Signed in as {userEmail || "unknown"}</span>
+          <span className="text-sm text-gray-600">
+            Signed in as {userEmail || "unknown"}{userRole ? ` (${userRole})` : ""}
+          </span>
+          {can("users:manage") && (
+            <button
+              onClick={() => router.push("/admin")}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Manage users
+            </button>
+          )}
+          <button
+            onClick={() => router.push("/uploads")}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Upload history
+          </button>
+          {can("audit:read") && (
+            <button
+              onClick={() => router.push("/audit")}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Audit log
+            </button>
+          )}
+          {can("reports:delete") && (
+            <button
+              onClick={() => router.push("/recycle-bin")}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Recycle bin
+            </button>
+          )}
+          <button
+            onClick={() => router.push("/security")}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Security
+          </button>
           <button
-            onClick={handleSignOut}
+            onClick={() => handleSignOut()}
             className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
           >
             Sign out
           </button>
+          <button
+            onClick={handleSignOutEverywhere}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Sign out everywhere
+          </button>
         </div>
       </div>
 
       {/* Upload Section */}
-      <div className="mb-6 p-4 border rounded-lg bg-white shadow">
-        <h2 className="text-lg font-semibold mb-3">Upload XLSX File</h2>
-        <div className="flex items-center gap-4">
-          <input
-            type="file"
-            accept=".xlsx,.xls"
-            onChange={handleFileUpload}
-            disabled={uploading}
-            className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none"
-          />
-          {uploading && <span className="text-sm text-gray-600">Uploading...</span>}
+      {can("reports:write") && (
+        <div className="mb-6 p-4 border rounded-lg bg-white shadow">
+          <h2 className="text-lg font-semibold mb-3">Upload XLSX, CSV or TSV File</h2>
+          <div className="flex items-center gap-4">
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv,.tsv"
+              onChange={handleFileUpload}
+              disabled={uploading}
+              className="block w-full text-sm text-gray-900 border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none"
+            />
+            {mappingProfiles.length > 0 && (
+              <select
+                value={mappingProfileId}
+                onChange={(e) => setMappingProfileId(e.target.value)}
+                disabled={uploading}
+                title="Column mapping"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+              >
+                <option value="">Standard columns</option>
+                {mappingProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={conflictPolicy}
+              onChange={(e) => handleConflictPolicyChange(e.target.value as ConflictPolicy)}
+              disabled={uploading}
+              title="When a row already exists"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+            >
+              {(Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {CONFLICT_POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+            {uploading && <span className="text-sm text-gray-600">Uploading...</span>}
+          </div>
+
+          {uploadPreview && (
+            <div className="mt-4 border-t pt-4">
+              <p className="text-sm text-gray-700 mb-3">
+                <span className="font-medium">{uploadPreview.fileName ?? "Upload"}</span>:{" "}
+                {uploadPreview.summary.rows} row(s) — {uploadPreview.summary.new} new,{" "}
+                {uploadPreview.summary.unchanged} unchanged
+                {uploadPreview.summary.restored > 0 && `, ${uploadPreview.summary.restored} back from the recycle bin`},{" "}
+                {uploadPreview.summary.conflicts} conflicting with existing data
+                {uploadPreview.summary.conflicts > 0 &&
+                  ` (${uploadPreview.summary.overwritten} changed, ${uploadPreview.summary.kept} kept)`};{" "}
+                {uploadPreview.summary.skipped} skipped.
+              </p>
+
+              {uploadPreview.suggestedProfile && (
+                <p className="text-sm text-amber-700 mb-3">
+                  The column mapping &quot;{uploadPreview.suggestedProfile.name}&quot; reads{" "}
+                  {uploadPreview.suggestedProfile.rowCount} row(s) of this file.{" "}
+                  <button onClick={handleUseSuggestedProfile} disabled={uploading} className="underline">
+                    Use it instead
+                  </button>
+                </p>
+              )}
+
+              {uploadPreview.skipped.length > 0 && (
+                <div className="mb-3">
+                  <h3 className="text-sm font-semibold mb-1">Skipped rows</h3>
+                  <div className="max-h-48 overflow-y-auto border rounded">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-left">
+                        <tr>
+                          <th className="px-3 py-1.5 font-medium">Sheet</th>
+                          <th className="px-3 py-1.5 font-medium">Row</th>
+                          <th className="px-3 py-1.5 font-medium">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {uploadPreview.skipped.map((row, index) => (
+                          <tr key={index}>
+                            <td className="px-3 py-1.5">{row.sheet ?? "—"}</td>
+                            <td className="px-3 py-1.5">{row.rowNumber ?? "—"}</td>
+                            <td className="px-3 py-1.5">{row.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {uploadPreview.conflicts.length > 0 && (
+                <div className="mb-3">
+                  <h3 className="text-sm font-semibold mb-1">
+                    Rows that already exist ({CONFLICT_POLICY_LABELS[uploadPreview.conflictPolicy].toLowerCase()})
+                  </h3>
+                  <div className="max-h-48 overflow-y-auto border rounded">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-left">
+                        <tr>
+                          <th className="px-3 py-1.5 font-medium">Vehicle</th>
+                          <th className="px-3 py-1.5 font-medium">Date</th>
+                          <th className="px-3 py-1.5 font-medium">Existing → uploaded</th>
+                          <th className="px-3 py-1.5 font-medium">Result</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {uploadPreview.conflicts.map(({ existing, uploaded, fields, resolution }) => (
+                          <tr key={`${uploaded.vehicleNo}|${uploaded.reportDate}`}>
+                            <td className="px-3 py-1.5">{uploaded.vehicleNo}</td>
+                            <td className="px-3 py-1.5">{uploaded.reportDate}</td>
+                            <td className="px-3 py-1.5">
+                              {fields.map((field) => `${field}: ${existing[field]} → ${uploaded[field]}`).join(", ")}
+                            </td>
+                            <td className="px-3 py-1.5">{CONFLICT_RESOLUTION_LABELS[resolution]}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCommitUpload}
+                  disabled={
+                    uploading ||
+                    uploadPreview.summary.rows === 0 ||
+                    (uploadPreview.conflictPolicy === "FAIL" && uploadPreview.summary.conflicts > 0)
+                  }
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save {uploadPreview.summary.rows} row(s)
+                </button>
+                <button
+                  onClick={() => setUploadPreview(null)}
+                  disabled={uploading}
+                  className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
         </div>
-      </div>
+      )}
 
       {/* Filters Section */}
       <div className="mb-6 p-4 border rounded-lg bg-white shadow">
@@ -916,13 +1323,15 @@ export default function ReportsPage() {
           <span className="text-sm text-gray-600">
             Showing {filteredData.length} of {data.length} records
           </span>
-          <button
-            onClick={generatePDF}
-            disabled={generating || filteredData.length === 0 || loading}
-            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {generating ? "Generating..." : "Generate PDF"}
-          </button>
+          {can("reports:generate") && (
+            <button
+              onClick={generatePDF}
+              disabled={generating || filteredData.length === 0 || loading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {generating ? "Generating..." : "Generate PDF"}
+            </button>
+          )}
         </div>
       </div>
 
@@ -933,7 +1342,7 @@ export default function ReportsPage() {
             {selectedRows.size > 0 ? `${selectedRows.size} of ${filteredData.length} rows selected` : `${filteredData.length} rows`}
           </span>
           <div className="flex items-center gap-2">
-            {selectedRows.size > 0 && (
+            {can("reports:delete") && selectedRows.size > 0 && (
               <button
                 type="button"
                 onClick={handleBulkDelete}
@@ -943,14 +1352,16 @@ export default function ReportsPage() {
                 Delete Selected ({selectedRows.size})
               </button>
             )}
-            <button
-              type="button"
-              onClick={startNewRow}
-              disabled={saving || loading}
-              className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              New Row
-            </button>
+            {can("reports:write") && (
+              <button
+                type="button"
+                onClick={startNewRow}
+                disabled={saving || loading}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                New Row
+              </button>
+            )}
           </div>
         </div>
         {isFormOpen && (
@@ -972,12 +1383,26 @@ export default function ReportsPage() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <label className="flex flex-col gap-1 text-sm text-gray-700">
                   Area
-                  <input
-                    className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    value={formState.area}
-                    onChange={(e) => handleFormChange("area", e.target.value)}
-                    required
-                  />
+                  {userAreas ? (
+                    <select
+                      className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formState.area}
+                      onChange={(e) => handleFormChange("area", e.target.value)}
+                      required
+                    >
+                      <option value="">Select area</option>
+                      {userAreas.map((a) => (
+                        <option key={a} value={a}>{a}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formState.area}
+                      onChange={(e) => handleFormChange("area", e.target.value)}
+                      required
+                    />
+                  )}
                 </label>
                 <label className="flex flex-col gap-1 text-sm text-gray-700">
                   Vehicle No.
@@ -1015,12 +1440,28 @@ export default function ReportsPage() {
                   />
                 </label>
                 <label className="flex flex-col gap-1 text-sm text-gray-700">
-                  Distance (km)
-                  <input
-                    className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    value={formState.tripDistanceKm}
-                    onChange={(e) => handleFormChange("tripDistanceKm", e.target.value)}
-                  />
+                  Distance / Engine Hours
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formState.tripDistance}
+                      onChange={(e) => handleFormChange("tripDistance", e.target.value)}
+                    />
+                    <select
+                      className="px-2 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formState.distanceUnit}
+                      onChange={(e) => handleFormChange("distanceUnit", e.target.value)}
+                    >
+                      {DISTANCE_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>
+                          {DISTANCE_UNIT_LABELS[unit]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </label>
                 <label className="flex flex-col gap-1 text-sm text-gray-700">
                   Trip Count
@@ -1053,18 +1494,92 @@ export default function ReportsPage() {
             </form>
           </div>
         )}
+        {historyRow && (
+          <div className="border-b border-gray-200 bg-gray-50 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-800">
+                History: {historyRow.vehicleNo} on {formatDisplayDate(historyRow.reportDate)}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setHistoryRow(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Close
+              </button>
+            </div>
+            {historyError && <p className="text-sm text-red-600">{historyError}</p>}
+            {historyLoading ? (
+              <p className="text-sm text-gray-600">Loading…</p>
+            ) : historyVersions.length === 0 ? (
+              <p className="text-sm text-gray-600">This row hasn&apos;t been changed since it was added.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 bg-white border rounded">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Values</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Uploaded</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Replaced</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {historyVersions.map((version) => (
+                      <tr key={version.id}>
+                        <td className="px-3 py-2 text-sm">{version.version}</td>
+                        <td className="px-3 py-2 text-sm">
+                          {formatDistance(version.tripDistance, version.distanceUnit)}, {version.tripCount} trip(s)
+                          <span className="block text-xs text-gray-500">
+                            {version.vehicleNo} · {version.area} · {version.tankerType} · {version.transporterName} ·{" "}
+                            {formatDisplayDate(version.reportDate)}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          {version.uploadedBy}
+                          <span className="block text-xs text-gray-500">
+                            {formatDateTime(version.uploadedAt)} · {version.snapshotCode}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          {version.replacedBy ?? "—"}
+                          <span className="block text-xs text-gray-500">{formatDateTime(version.replacedAt)}</span>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          {can("reports:write") && (
+                            <button
+                              type="button"
+                              onClick={() => handleRestoreVersion(version)}
+                              disabled={saving}
+                              className="px-2 py-1 text-xs font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Restore
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-4 py-3">
-                  <input
-                    type="checkbox"
-                    checked={selectedRows.size === filteredData.length && filteredData.length > 0}
-                    onChange={toggleAllRows}
-                    className="rounded border-gray-300"
-                  />
-                </th>
+                {can("reports:delete") && (
+                  <th className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.size === filteredData.length && filteredData.length > 0}
+                      onChange={toggleAllRows}
+                      className="rounded border-gray-300"
+                    />
+                  </th>
+                )}
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">S.No</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Area</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vehicle No.</th>
@@ -1079,40 +1594,54 @@ export default function ReportsPage() {
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredData.map((row, idx) => (
                 <tr key={row.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
-                  <td className="px-4 py-3">
-                    <input
-                      type="checkbox"
-                      checked={selectedRows.has(row.id)}
-                      onChange={() => toggleRowSelection(row.id)}
-                      className="rounded border-gray-300"
-                    />
-                  </td>
+                  {can("reports:delete") && (
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedRows.has(row.id)}
+                        onChange={() => toggleRowSelection(row.id)}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                  )}
                   <td className="px-4 py-3 text-sm">{idx + 1}</td>
                   <td className="px-4 py-3 text-sm">{row.area}</td>
                   <td className="px-4 py-3 text-sm font-medium">{row.vehicleNo}</td>
                   <td className="px-4 py-3 text-sm">{row.tankerType}</td>
                   <td className="px-4 py-3 text-sm">{row.transporterName}</td>
                   <td className="px-4 py-3 text-sm">{formatDisplayDate(row.reportDate)}</td>
-                  <td className="px-4 py-3 text-sm">{row.tripDistanceKm}</td>
+                  <td className="px-4 py-3 text-sm">{formatDistance(row.tripDistance, row.distanceUnit)}</td>
                   <td className="px-4 py-3 text-sm">{row.tripCount}</td>
                   <td className="px-4 py-3 text-sm">
                     <div className="flex items-center gap-2">
+                      {can("reports:write") && (
+                        <button
+                          type="button"
+                          onClick={() => startEditRow(row)}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Edit
+                        </button>
+                      )}
                       <button
                         type="button"
-                        onClick={() => startEditRow(row)}
-                        disabled={saving}
-                        className="px-2 py-1 text-xs font-medium text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Edit
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => handleDeleteRow(row)}
+                        onClick={() => openHistory(row)}
                         disabled={saving}
-                        className="px-2 py-1 text-xs font-medium text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        className="px-2 py-1 text-xs font-medium text-gray-600 border border-gray-400 rounded hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        Delete
+                        History
                       </button>
+                      {can("reports:delete") && (
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteRow(row)}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs font-medium text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -0,0 +1,222 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { authFetch } from "@/lib/auth-fetch";
+import { formatDistance, type DistanceUnit } from "@/lib/distance";
+
+type DeletedRow = {
+  id: string;
+  vehicleNo: string;
+  area: string;
+  tankerType: string;
+  transporterName: string;
+  reportDate: string;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
+  tripCount: number;
+  deletedAt: string;
+  deletedBy: string | null;
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) return value;
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  return `${dd}-${mm}-${date.getFullYear()} ${hh}:${min}`;
+};
+
+export default function RecycleBinPage() {
+  const router = useRouter();
+  const [rows, setRows] = useState<DeletedRow[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!localStorage.getItem("accessToken")) {
+      router.replace("/login");
+      return;
+    }
+    loadRows();
+  }, [router]);
+
+  async function loadRows() {
+    try {
+      setLoading(true);
+      setPageError(null);
+
+      const res = await authFetch("/api/reports/recycle-bin");
+      if (res.status === 401) {
+        router.replace("/login");
+        return;
+      }
+      const payload = await res.json();
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to load recycle bin");
+      }
+
+      setRows(payload.records);
+      setRetentionDays(payload.retentionDays);
+      setSelectedRows(new Set());
+    } catch (e) {
+      console.error("Failed to load recycle bin:", e);
+      setPageError(e instanceof Error ? e.message : "Failed to load recycle bin");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleAction(method: "POST" | "DELETE") {
+    if (selectedRows.size === 0) return;
+
+    const purge = method === "DELETE";
+    const confirmed = window.confirm(
+      purge
+        ? `Permanently delete ${selectedRows.size} row(s)? This cannot be undone.`
+        : `Restore ${selectedRows.size} row(s)?`
+    );
+    if (!confirmed) return;
+
+    setSaving(true);
+    setPageError(null);
+    try {
+      const res = await authFetch("/api/reports/recycle-bin", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selectedRows) }),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload?.error || (purge ? "Failed to purge rows" : "Failed to restore rows"));
+      }
+      await loadRows();
+    } catch (e) {
+      console.error(e);
+      setPageError(e instanceof Error ? e.message : "Failed to update recycle bin");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const toggleRow = (id: string) =>
+    setSelectedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleAll = () =>
+    setSelectedRows(selectedRows.size === rows.length ? new Set() : new Set(rows.map((row) => row.id)));
+
+  return (
+    <main className="p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+        <h1 className="text-2xl font-bold">Recycle Bin</h1>
+        <button
+          onClick={() => router.push("/")}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Back to reports
+        </button>
+      </div>
+
+      {retentionDays !== null && (
+        <p className="mb-4 text-sm text-gray-600">
+          {retentionDays > 0
+            ? `Deleted rows are permanently removed ${retentionDays} day(s) after deletion.`
+            : "Deleted rows are kept until they are purged."}
+        </p>
+      )}
+
+      {pageError && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {pageError}
+        </div>
+      )}
+
+      <div className="mb-4 flex gap-2">
+        <button
+          onClick={() => handleAction("POST")}
+          disabled={saving || selectedRows.size === 0}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Restore Selected ({selectedRows.size})
+        </button>
+        <button
+          onClick={() => handleAction("DELETE")}
+          disabled={saving || selectedRows.size === 0}
+          className="px-4 py-2 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete Permanently ({selectedRows.size})
+        </button>
+      </div>
+
+      <div className="border rounded-lg bg-white shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={rows.length > 0 && selectedRows.size === rows.length}
+                    onChange={toggleAll}
+                    className="rounded border-gray-300"
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vehicle No</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Area</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Transporter</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Distance</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Trips</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Deleted</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row, idx) => (
+                <tr key={row.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.has(row.id)}
+                      onChange={() => toggleRow(row.id)}
+                      className="rounded border-gray-300"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">{row.vehicleNo}</td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{row.reportDate}</td>
+                  <td className="px-4 py-3 text-sm">{row.area}</td>
+                  <td className="px-4 py-3 text-sm">{row.transporterName}</td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDistance(row.tripDistance, row.distanceUnit)}</td>
+                  <td className="px-4 py-3 text-sm">{row.tripCount}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {formatDateTime(row.deletedAt)}
+                    {row.deletedBy && <span className="block text-xs text-gray-500">{row.deletedBy}</span>}
+                  </td>
+                </tr>
+              ))}
+              {!loading && rows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-sm text-gray-500">
+                    The recycle bin is empty
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {loading && <div className="mt-4 text-sm text-gray-600">Loading…</div>}
+    </main>
+  );
+}
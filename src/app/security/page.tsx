@@ -0,0 +1,267 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { authFetch } from "@/lib/auth-fetch";
+
+type TwoFactorStatus = { enabled: boolean; enforced: boolean };
+
+const inputClassName =
+  "w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+const primaryButtonClassName =
+  "px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50";
+
+export default function SecurityPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [disableCode, setDisableCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!localStorage.getItem("accessToken")) {
+      router.replace("/login");
+      return;
+    }
+    loadStatus();
+  }, [router]);
+
+  async function loadStatus() {
+    try {
+      const res = await authFetch("/api/me");
+      if (res.status === 401) {
+        router.replace("/login");
+        return;
+      }
+      const payload = await res.json();
+      if (!res.ok) {
+        throw new Error(payload?.message || "Failed to load account");
+      }
+      setStatus(payload.twoFactor);
+    } catch (e) {
+      console.error("Failed to load account:", e);
+      setError(e instanceof Error ? e.message : "Failed to load account");
+    }
+  }
+
+  /**
+   * POST to a two-factor endpoint and return its payload, surfacing errors
+   */
+  async function post(url: string, body: Record<string, unknown>, fallbackError: string) {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await authFetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const payload = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(payload?.message || fallbackError);
+      }
+      return payload;
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : fallbackError);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleStartSetup() {
+    const payload = await post("/api/two-factor/setup", {}, "Could not start two-factor setup");
+    if (payload) {
+      setEnrollment(payload);
+      setRecoveryCodes(null);
+      setCode("");
+    }
+  }
+
+  async function handleEnable(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const payload = await post("/api/two-factor/enable", { code: code.trim() }, "Failed to enable two-factor");
+    if (payload) {
+      setEnrollment(null);
+      setRecoveryCodes(payload.recoveryCodes);
+      setCode("");
+      await loadStatus();
+    }
+  }
+
+  async function handleRegenerateCodes(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const payload = await post(
+      "/api/two-factor/recovery-codes",
+      { code: code.trim() },
+      "Failed to regenerate recovery codes"
+    );
+    if (payload) {
+      setRecoveryCodes(payload.recoveryCodes);
+      setCode("");
+    }
+  }
+
+  async function handleDisable(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!window.confirm("Turn off two-factor authentication?")) return;
+    const factor = useRecoveryCode ? { recoveryCode: disableCode.trim() } : { code: disableCode.trim() };
+    const payload = await post("/api/two-factor/disable", { password, ...factor }, "Failed to disable two-factor");
+    if (payload) {
+      setNotice("Two-factor authentication has been turned off");
+      setRecoveryCodes(null);
+      setDisableCode("");
+      setPassword("");
+      await loadStatus();
+    }
+  }
+
+  return (
+    <main className="p-6 max-w-2xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+        <h1 className="text-2xl font-bold">Security</h1>
+        <button
+          onClick={() => router.push("/")}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Back to reports
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="mb-4 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">{notice}</div>
+      )}
+
+      <div className="p-4 border rounded-lg bg-white shadow space-y-4">
+        <h2 className="text-lg font-semibold">Two-Factor Authentication</h2>
+
+        {!status && <p className="text-sm text-gray-600">Loading…</p>}
+
+        {status && (
+          <p className="text-sm text-gray-700">
+            Status: <span className="font-medium">{status.enabled ? "On" : "Off"}</span>
+            {status.enforced && " (required for your role)"}
+          </p>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              Save these recovery codes somewhere safe; each one can be used once to sign in if you lose your
+              authenticator app. They won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border rounded-md p-3">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <button type="button" onClick={handleStartSetup} disabled={loading} className={primaryButtonClassName}>
+            Set up two-factor authentication
+          </button>
+        )}
+
+        {status && !status.enabled && enrollment && (
+          <form onSubmit={handleEnable} className="space-y-3">
+            <p className="text-sm text-gray-700">
+              Add this account to an authenticator app with the setup key below, then enter the 6-digit code it shows.
+            </p>
+            <p className="font-mono text-sm break-all bg-gray-50 border rounded-md p-2">{enrollment.secret}</p>
+            <a href={enrollment.otpauthUrl} className="block text-sm font-medium text-blue-600 hover:text-blue-700">
+              Open in authenticator app
+            </a>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClassName}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+            />
+            <button type="submit" disabled={loading} className={primaryButtonClassName}>
+              Turn on
+            </button>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <>
+            <form onSubmit={handleRegenerateCodes} className="space-y-3 border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700">New recovery codes</h3>
+              <p className="text-sm text-gray-600">Replaces all of your existing recovery codes.</p>
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+                placeholder="Authentication code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+              />
+              <button type="submit" disabled={loading} className={primaryButtonClassName}>
+                Generate new codes
+              </button>
+            </form>
+
+            {!status.enforced && (
+              <form onSubmit={handleDisable} className="space-y-3 border-t pt-4">
+                <h3 className="text-sm font-medium text-gray-700">Turn off two-factor authentication</h3>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Current password"
+                  autoComplete="current-password"
+                  required
+                />
+                <input
+                  value={disableCode}
+                  onChange={(e) => setDisableCode(e.target.value)}
+                  className={inputClassName}
+                  placeholder={useRecoveryCode ? "Recovery code" : "Authentication code"}
+                  autoComplete="one-time-code"
+                  required
+                />
+                <div className="flex items-center justify-between">
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="px-4 py-2 text-sm font-medium text-red-600 border border-red-600 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </button>
+                </div>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { FormEvent, useState } from "react";
+import { FormEvent, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 
 export default function SignupPage() {
@@ -8,21 +8,47 @@ export default function SignupPage() {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [developerCode, setDeveloperCode] = useState("");
+  const [inviteToken, setInviteToken] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState(false);
+
+  // Invite links look like /signup?invite=<token>; the invite decides the email and role
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const token = new URLSearchParams(window.location.search).get("invite") ?? "";
+    setInviteToken(token);
+    if (!token) {
+      setError("Signing up requires an invite link from an administrator");
+      return;
+    }
+
+    fetch(`/api/signup?invite=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.message || "Invite is invalid or has expired");
+        }
+        setEmail(payload.email ?? "");
+        if (payload.name) setName(payload.name);
+      })
+      .catch((err) => {
+        console.error("Failed to load invite", err);
+        setError(err instanceof Error ? err.message : "Invite is invalid or has expired");
+      });
+  }, []);
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setError(null);
 
-    if (!email.trim() || !password) {
-      setError("Email and password are required");
+    if (!inviteToken) {
+      setError("Signing up requires an invite link from an administrator");
       return;
     }
 
-    if (!developerCode.trim()) {
-      setError("Developer code is required");
+    if (!password) {
+      setError("Password is required");
       return;
     }
 
@@ -33,9 +59,8 @@ export default function SignupPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name: name.trim() || undefined,
-          email: email.trim(),
           password,
-          developerCode: developerCode.trim(),
+          inviteToken,
         }),
       });
 
@@ -45,7 +70,7 @@ export default function SignupPage() {
         throw new Error(payload?.message || "Signup failed");
       }
 
-      router.replace("/login");
+      setCreated(true);
     } catch (err) {
       console.error("Signup failed", err);
       setError(err instanceof Error ? err.message : "Signup failed");
@@ -58,79 +83,69 @@ export default function SignupPage() {
     <main className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
       <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8">
         <h1 className="text-2xl font-semibold text-center mb-6">Create Account</h1>
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
-              Name
-            </label>
-            <input
-              id="name"
-              type="text"
-              value={name}
-              onChange={(event) => setName(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Your name"
-              autoComplete="name"
-            />
-          </div>
-
-          <div>
-            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(event) => setEmail(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="you@example.com"
-              autoComplete="email"
-              required
-            />
-          </div>
-
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(event) => setPassword(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Create a password"
-              autoComplete="new-password"
-              required
-            />
-          </div>
-
-          <div>
-            <label htmlFor="developerCode" className="block text-sm font-medium text-gray-700 mb-2">
-              Developer Code
-            </label>
-            <input
-              id="developerCode"
-              type="text"
-              value={developerCode}
-              onChange={(event) => setDeveloperCode(event.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="Enter developer code"
-              required
-            />
-          </div>
-
-          {error && <p className="text-sm text-red-600">{error}</p>}
-
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
-          >
-            {loading ? "Creating account..." : "Sign Up"}
-          </button>
-        </form>
+        {created ? (
+          <p className="text-sm text-gray-700 text-center">
+            Your account has been created. We sent a verification link to {email}; open it, then sign in.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                Name
+              </label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Your name"
+                autoComplete="name"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                readOnly
+                className="w-full px-4 py-2 border border-gray-300 rounded-md bg-gray-50 text-gray-600 focus:outline-none"
+                placeholder="Filled in from your invite"
+                autoComplete="email"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Create a password"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={loading || !inviteToken}
+              className="w-full py-2 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Creating account..." : "Sign Up"}
+            </button>
+          </form>
+        )}
 
         <p className="mt-6 text-center text-sm text-gray-600">
           Already have an account?{" "}
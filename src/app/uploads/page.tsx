@@ -0,0 +1,541 @@
+"use client";
+import { FormEvent, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { authFetch } from "@/lib/auth-fetch";
+import { formatDistance, type DistanceUnit } from "@/lib/distance";
+import { hasPermission } from "@/lib/permissions";
+
+type UploadSnapshot = {
+  id: string;
+  snapshotCode: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  recordCount: number;
+  fileName: string | null;
+  fileKey: string | null;
+  apiKeyId: string | null;
+  rolledBackAt: string | null;
+  rolledBackBy: string | null;
+  conflictPolicy: "OVERWRITE" | "KEEP_EXISTING" | "FAIL" | "LARGER";
+};
+
+// Shown for uploads that didn't simply overwrite existing rows
+const CONFLICT_POLICY_NOTES: Partial<Record<UploadSnapshot["conflictPolicy"], string>> = {
+  KEEP_EXISTING: "Kept existing rows",
+  FAIL: "Only if no conflicts",
+  LARGER: "Kept larger values",
+};
+
+type RowValues = {
+  vehicleNo: string;
+  area: string;
+  tankerType: string;
+  transporterName: string;
+  reportDate: string;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
+  tripCount: number;
+};
+
+type SnapshotRow = RowValues & { reportId: string; status: "current" | "replaced" | "deleted" };
+
+type SnapshotDiff = {
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  added: RowValues[];
+  removed: RowValues[];
+  changed: Array<{ before: RowValues; after: RowValues; fields: string[] }>;
+};
+
+type UploadFilters = {
+  uploader: string;
+  fileName: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: UploadFilters = {
+  uploader: "",
+  fileName: "",
+  from: "",
+  to: "",
+};
+
+const STATUS_LABELS: Record<SnapshotRow["status"], string> = {
+  current: "Current",
+  replaced: "Changed since",
+  deleted: "In recycle bin",
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) return value;
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const min = String(date.getMinutes()).padStart(2, "0");
+  return `${dd}-${mm}-${date.getFullYear()} ${hh}:${min}`;
+};
+
+const formatField = (row: RowValues, field: string) =>
+  field === "tripDistance" || field === "distanceUnit"
+    ? formatDistance(row.tripDistance, row.distanceUnit)
+    : String(row[field as keyof RowValues]);
+
+export default function UploadHistoryPage() {
+  const router = useRouter();
+  const [snapshots, setSnapshots] = useState<UploadSnapshot[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<UploadFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<UploadFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [userRole, setUserRole] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<UploadSnapshot | null>(null);
+  const [rows, setRows] = useState<SnapshotRow[]>([]);
+  const [against, setAgainst] = useState("current");
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!localStorage.getItem("accessToken")) {
+      router.replace("/login");
+      return;
+    }
+    loadSnapshots(EMPTY_FILTERS, null);
+    authFetch("/api/me")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((me) => setUserRole(me?.role ?? null))
+      .catch((e) => console.error("Failed to load current user:", e));
+  }, [router]);
+
+  async function loadSnapshots(activeFilters: UploadFilters, cursor: string | null) {
+    try {
+      setLoading(true);
+      setPageError(null);
+
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(activeFilters)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      if (cursor) params.set("cursor", cursor);
+
+      const res = await authFetch(`/api/uploads?${params.toString()}`);
+      if (res.status === 401) {
+        router.replace("/login");
+        return;
+      }
+      const payload = await res.json();
+      if (!res.ok) {
+        throw new Error(payload?.error || "Failed to load uploads");
+      }
+
+      setSnapshots((prev) => (cursor ? [...prev, ...payload.snapshots] : payload.snapshots));
+      setNextCursor(payload.nextCursor);
+    } catch (e) {
+      console.error("Failed to load uploads:", e);
+      setPageError(e instanceof Error ? e.message : "Failed to load uploads");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadDetail(snapshot: UploadSnapshot, compareWith: string) {
+    try {
+      setDetailLoading(true);
+      setDetailError(null);
+
+      const code = encodeURIComponent(snapshot.snapshotCode);
+      const [rowsRes, diffRes] = await Promise.all([
+        authFetch(`/api/uploads/${code}`),
+        authFetch(`/api/uploads/${code}/diff?against=${encodeURIComponent(compareWith)}`),
+      ]);
+      const [rowsPayload, diffPayload] = await Promise.all([rowsRes.json(), diffRes.json()]);
+      if (!rowsRes.ok) throw new Error(rowsPayload?.error || "Failed to load upload");
+      if (!diffRes.ok) throw new Error(diffPayload?.error || "Failed to compare uploads");
+
+      setRows(rowsPayload.rows);
+      setDiff(diffPayload);
+    } catch (e) {
+      console.error("Failed to load upload:", e);
+      setDetailError(e instanceof Error ? e.message : "Failed to load upload");
+    } finally {
+      setDetailLoading(false);
+    }
+  }
+
+  function openSnapshot(snapshot: UploadSnapshot) {
+    setSelected(snapshot);
+    setAgainst("current");
+    setRows([]);
+    setDiff(null);
+    loadDetail(snapshot, "current");
+  }
+
+  function changeAgainst(value: string) {
+    setAgainst(value);
+    if (selected) loadDetail(selected, value);
+  }
+
+  async function handleDownload(snapshot: UploadSnapshot) {
+    try {
+      setPageError(null);
+      const res = await authFetch(`/api/uploads/${encodeURIComponent(snapshot.snapshotCode)}/file`);
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        throw new Error(payload?.error || "Unable to download file");
+      }
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = snapshot.fileName ?? "upload";
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setPageError(e instanceof Error ? e.message : "Unable to download file");
+    }
+  }
+
+  async function postRollback(snapshot: UploadSnapshot, body: { dryRun?: boolean; force?: boolean }) {
+    const res = await authFetch(`/api/uploads/${encodeURIComponent(snapshot.snapshotCode)}/rollback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(payload?.error || "Failed to roll back upload");
+    return payload;
+  }
+
+  async function handleRollback(snapshot: UploadSnapshot) {
+    setRollingBack(true);
+    setPageError(null);
+    try {
+      const preview = await postRollback(snapshot, { dryRun: true });
+      const lines = [
+        `Roll back the upload of ${formatDateTime(snapshot.uploadedAt)} by ${snapshot.uploadedBy}?`,
+        `${preview.deletions.length} row(s) it created will be moved to the recycle bin.`,
+        `${preview.restorations.length} row(s) it overwrote will get their earlier values back.`,
+      ];
+      if (preview.conflicts.length > 0) {
+        lines.push(`${preview.conflicts.length} of these row(s) were changed after the upload and will lose those changes.`);
+      }
+      if (!window.confirm(lines.join("\n"))) return;
+
+      await postRollback(snapshot, { force: preview.conflicts.length > 0 });
+      setSelected(null);
+      await loadSnapshots(appliedFilters, null);
+    } catch (e) {
+      console.error(e);
+      setPageError(e instanceof Error ? e.message : "Failed to roll back upload");
+    } finally {
+      setRollingBack(false);
+    }
+  }
+
+  function handleSearch(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setAppliedFilters(filters);
+    loadSnapshots(filters, null);
+  }
+
+  function handleReset() {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    loadSnapshots(EMPTY_FILTERS, null);
+  }
+
+  const updateFilter = (key: keyof UploadFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const canRollback = hasPermission(userRole, "uploads:rollback");
+
+  const inputClassName =
+    "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <main className="p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+        <h1 className="text-2xl font-bold">Upload History</h1>
+        <button
+          onClick={() => router.push("/")}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+        >
+          Back to reports
+        </button>
+      </div>
+
+      {pageError && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {pageError}
+        </div>
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="mb-6 p-4 border rounded-lg bg-white shadow">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Uploader
+            <input
+              value={filters.uploader}
+              onChange={(e) => updateFilter("uploader", e.target.value)}
+              placeholder="Email"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            File Name
+            <input
+              value={filters.fileName}
+              onChange={(e) => updateFilter("fileName", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Search
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={loading}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Snapshot Detail */}
+      {selected && (
+        <div className="mb-6 border rounded-lg bg-white shadow overflow-hidden">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 px-4 py-3 border-b border-gray-200 bg-gray-50">
+            <div className="text-sm">
+              <span className="font-medium">{selected.fileName ?? "API upload"}</span>
+              <span className="text-gray-500">
+                {" "}
+                · {formatDateTime(selected.uploadedAt)} · {selected.uploadedBy}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-700">
+                Compare with{" "}
+                <select
+                  value={against}
+                  onChange={(e) => changeAgainst(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  <option value="current">Current data</option>
+                  {snapshots
+                    .filter((snapshot) => snapshot.snapshotCode !== selected.snapshotCode)
+                    .map((snapshot) => (
+                      <option key={snapshot.snapshotCode} value={snapshot.snapshotCode}>
+                        {formatDateTime(snapshot.uploadedAt)} · {snapshot.fileName ?? snapshot.snapshotCode}
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <button
+                onClick={() => setSelected(null)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 space-y-4">
+            {detailError && <div className="text-sm text-red-700">{detailError}</div>}
+            {detailLoading && <div className="text-sm text-gray-600">Loading…</div>}
+
+            {diff && !detailLoading && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span className="text-green-700">{diff.summary.added} added</span>
+                  <span className="text-red-700">{diff.summary.removed} removed</span>
+                  <span className="text-amber-700">{diff.summary.changed} changed</span>
+                  <span className="text-gray-600">{diff.summary.unchanged} unchanged</span>
+                </div>
+                {(diff.changed.length > 0 || diff.added.length > 0 || diff.removed.length > 0) && (
+                  <ul className="space-y-0.5 max-h-64 overflow-y-auto">
+                    {diff.changed.map(({ before, after, fields }) => (
+                      <li key={`changed-${after.vehicleNo}-${after.reportDate}`} className="font-mono text-xs">
+                        {after.vehicleNo} on {after.reportDate}:{" "}
+                        {fields.map((field) => `${field} ${formatField(before, field)} → ${formatField(after, field)}`).join(", ")}
+                      </li>
+                    ))}
+                    {diff.added.map((row) => (
+                      <li key={`added-${row.vehicleNo}-${row.reportDate}`} className="font-mono text-xs text-green-700">
+                        + {row.vehicleNo} on {row.reportDate}: {formatDistance(row.tripDistance, row.distanceUnit)}, {row.tripCount} trip(s)
+                      </li>
+                    ))}
+                    {diff.removed.map((row) => (
+                      <li key={`removed-${row.vehicleNo}-${row.reportDate}`} className="font-mono text-xs text-red-700">
+                        − {row.vehicleNo} on {row.reportDate}: {formatDistance(row.tripDistance, row.distanceUnit)}, {row.tripCount} trip(s)
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {rows.length > 0 && !detailLoading && (
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vehicle No</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Area</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transporter</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Distance</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trips</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map((row) => (
+                      <tr key={row.reportId}>
+                        <td className="px-4 py-2 text-sm">{row.vehicleNo}</td>
+                        <td className="px-4 py-2 text-sm whitespace-nowrap">{row.reportDate}</td>
+                        <td className="px-4 py-2 text-sm">{row.area}</td>
+                        <td className="px-4 py-2 text-sm">{row.transporterName}</td>
+                        <td className="px-4 py-2 text-sm whitespace-nowrap">
+                          {formatDistance(row.tripDistance, row.distanceUnit)}
+                        </td>
+                        <td className="px-4 py-2 text-sm">{row.tripCount}</td>
+                        <td className="px-4 py-2 text-sm">{STATUS_LABELS[row.status]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Snapshots Table */}
+      <div className="border rounded-lg bg-white shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Uploaded</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rows</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {snapshots.map((snapshot, idx) => (
+                <tr key={snapshot.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDateTime(snapshot.uploadedAt)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {snapshot.uploadedBy}
+                    {snapshot.apiKeyId && <span className="block text-xs text-gray-500">via API key</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {snapshot.fileName ?? "—"}
+                    {snapshot.rolledBackAt && (
+                      <span className="block text-xs text-red-600">
+                        Rolled back {formatDateTime(snapshot.rolledBackAt)}
+                        {snapshot.rolledBackBy ? ` by ${snapshot.rolledBackBy}` : ""}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {snapshot.recordCount}
+                    {CONFLICT_POLICY_NOTES[snapshot.conflictPolicy] && (
+                      <span className="block text-xs text-gray-500">{CONFLICT_POLICY_NOTES[snapshot.conflictPolicy]}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => openSnapshot(snapshot)}
+                        className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-100"
+                      >
+                        View
+                      </button>
+                      {snapshot.fileKey && (
+                        <button
+                          onClick={() => handleDownload(snapshot)}
+                          className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-100"
+                        >
+                          Download
+                        </button>
+                      )}
+                      {canRollback && !snapshot.rolledBackAt && (
+                        <button
+                          onClick={() => handleRollback(snapshot)}
+                          disabled={rollingBack}
+                          className="px-3 py-1 text-xs text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Roll back
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {!loading && snapshots.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                    No uploads match these filters
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {loading && <div className="mt-4 text-sm text-gray-600">Loading…</div>}
+      {nextCursor && !loading && (
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => loadSnapshots(appliedFilters, nextCursor)}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-100"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
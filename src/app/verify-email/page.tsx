@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function VerifyEmailPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<"pending" | "verified" | "failed">("pending");
+  const [message, setMessage] = useState("Verifying your email address…");
+
+  // Verification links look like /verify-email?token=<token>
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setStatus("failed");
+      setMessage("This verification link is incomplete.");
+      return;
+    }
+
+    fetch("/api/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const payload = await response.json();
+        if (!response.ok) {
+          throw new Error(payload?.message || "Email verification failed");
+        }
+        setStatus("verified");
+        setMessage(`${payload.email} has been verified. You can sign in now.`);
+      })
+      .catch((err) => {
+        console.error("Email verification failed", err);
+        setStatus("failed");
+        setMessage(err instanceof Error ? err.message : "Email verification failed");
+      });
+  }, []);
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-semibold text-center mb-6">Email Verification</h1>
+        <p className={`text-sm text-center ${status === "failed" ? "text-red-600" : "text-gray-700"}`}>{message}</p>
+        <p className="mt-6 text-center text-sm text-gray-600">
+          <button
+            type="button"
+            onClick={() => router.push("/login")}
+            className="font-medium text-blue-600 hover:text-blue-700"
+          >
+            Go to sign in
+          </button>
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+// src/instrumentation.ts
+/**
+ * Server startup checks
+ *
+ * Next.js calls register() once when a server instance starts. Storage (which
+ * every upload and PDF depends on) and mail are checked here, so a misconfigured
+ * deployment fails to start instead of failing on its first request. PDFs
+ * still held in the database are then moved to storage in the background.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getStorage } = await import("./lib/storage");
+  getStorage();
+
+  const { getMailTransport } = await import("./lib/mail");
+  getMailTransport();
+
+  const { scheduleMoveDatabasePdfs } = await import("./lib/pdf-storage");
+  scheduleMoveDatabasePdfs();
+}
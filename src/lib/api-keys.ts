@@ -0,0 +1,81 @@
+// src/lib/api-keys.ts
+/**
+ * API keys for machine clients
+ *
+ * Keys look like "djb_<8 hex>_<secret>". The "djb_<8 hex>" prefix is stored in
+ * clear so admins can tell keys apart; only the SHA-256 of the whole key is
+ * stored. A key acts as its owner, but only for the permissions listed in its
+ * scopes (and still granted by the owner's role), so uploads made with it are
+ * attributed to the owner.
+ *
+ * Clients send the key as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ */
+
+import { randomBytes } from "crypto";
+
+import { prisma } from "./prisma";
+import type { Permission } from "./permissions";
+import { hashToken } from "./tokens";
+
+export const API_KEY_PREFIX = "djb_";
+
+// Permissions a key can be granted; account and admin actions always need a user session
+export const API_KEY_SCOPES: Permission[] = ["reports:read", "reports:write", "reports:generate"];
+
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Don't rewrite lastUsedAt on every request
+
+/**
+ * Generate a new API key
+ * @returns The raw key (shown to the admin once), its display prefix and storage hash
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${randomBytes(32).toString("base64url")}`;
+  return { key, prefix, keyHash: hashToken(key) };
+}
+
+/**
+ * Extract an API key from the request headers
+ * @returns The raw key, or null when the request doesn't carry one (e.g. a JWT bearer token)
+ */
+export function readApiKey(req: Request): string | null {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+
+  const authorization = req.headers.get("authorization");
+  const bearer = authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+  return bearer.startsWith(API_KEY_PREFIX) ? bearer : null;
+}
+
+/**
+ * Keep only known scopes, de-duplicated
+ */
+export function normalizeScopes(scopes: unknown[]): Permission[] {
+  return API_KEY_SCOPES.filter((scope) => scopes.includes(scope));
+}
+
+/**
+ * Look up a live key and its owner, recording when it was used
+ * @throws Error with statusCode 401 when the key is unknown, revoked or expired
+ */
+export async function authenticateApiKey(rawKey: string) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(rawKey) },
+    include: { owner: true },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    throw Object.assign(new Error("Invalid API key"), { statusCode: 401 });
+  }
+
+  const now = new Date();
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    throw Object.assign(new Error("API key has expired"), { statusCode: 401 });
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return apiKey;
+}
@@ -0,0 +1,92 @@
+// src/lib/audit.ts
+/**
+ * Audit trail
+ *
+ * Every report create/upsert/update/delete and every PDF generation appends an
+ * AuditEvent with the actor, the target's values before and after, and the
+ * client's IP and user agent. Events are written with the same database client
+ * as the change they describe, so passing a transaction client records both
+ * atomically.
+ */
+
+import type { AuditAction, Prisma, Report } from "@prisma/client";
+
+import { formatReportDate } from "./report-dates";
+import { getClientIp, getUserAgent } from "./request-info";
+
+export type AuditContext = {
+  actorId: string | null;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+/**
+ * Who is acting and from where, taken from the authenticated user and request
+ */
+export function getAuditContext(
+  user: { id: string; email: string; apiKeyId?: string | null },
+  req: Request
+): AuditContext {
+  return {
+    actorId: user.id,
+    actorEmail: user.email,
+    apiKeyId: user.apiKeyId ?? null,
+    ipAddress: getClientIp(req),
+    userAgent: getUserAgent(req),
+  };
+}
+
+/**
+ * The report fields captured in before/after values
+ */
+function reportValues(report: Report): Prisma.InputJsonObject {
+  return {
+    vehicleNo: report.vehicleNo,
+    area: report.area,
+    tankerType: report.tankerType,
+    transporterName: report.transporterName,
+    reportDate: formatReportDate(report.reportDate),
+    tripDistance: report.tripDistance,
+    distanceUnit: report.distanceUnit,
+    tripCount: report.tripCount,
+    snapshotCode: report.snapshotCode,
+    uploadedBy: report.uploadedBy,
+    uploadedAt: report.uploadedAt.toISOString(),
+  };
+}
+
+/**
+ * Build the event for a change to one report row
+ * @param before - Row before the change (null for creates and inserting upserts)
+ * @param after - Row after the change (null for deletes)
+ */
+export function reportAuditEvent(
+  context: AuditContext,
+  action: AuditAction,
+  before: Report | null,
+  after: Report | null
+): Prisma.AuditEventCreateManyInput {
+  const target = (after ?? before)!;
+  return {
+    ...context,
+    action,
+    targetType: "Report",
+    targetId: target.id,
+    vehicleNo: target.vehicleNo,
+    reportDate: formatReportDate(target.reportDate),
+    area: target.area,
+    snapshotCode: target.snapshotCode,
+    before: before ? reportValues(before) : undefined,
+    after: after ? reportValues(after) : undefined,
+  };
+}
+
+/**
+ * Append audit events using the given client (prisma or a transaction client)
+ */
+export async function recordAuditEvents(db: Prisma.TransactionClient, events: Prisma.AuditEventCreateManyInput[]): Promise<void> {
+  if (events.length === 0) return;
+  await db.auditEvent.createMany({ data: events });
+}
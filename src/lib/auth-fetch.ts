@@ -0,0 +1,109 @@
+// src/lib/auth-fetch.ts
+/**
+ * Browser-side fetch wrapper for authenticated API routes.
+ * Attaches the access token saved by the login page as a bearer token and
+ * transparently renews it with the refresh token when it has expired.
+ */
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+// Shared so parallel requests that all hit a 401 trigger a single refresh
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Save the tokens returned by /api/login or /api/token/refresh
+ */
+export function storeSession(session: { accessToken: string; refreshToken?: string }) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.accessToken);
+  if (session.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  }
+}
+
+/**
+ * Forget the stored session on this browser
+ */
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem("userEmail");
+}
+
+async function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  try {
+    const res = await fetch("/api/token/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!res.ok) return false;
+    storeSession(await res.json());
+    return true;
+  } catch (e) {
+    console.error("Failed to refresh session:", e);
+    return false;
+  }
+}
+
+function withToken(init: RequestInit): RequestInit {
+  const headers = new Headers(init.headers);
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return { ...init, headers };
+}
+
+/**
+ * Same as fetch(), plus "Authorization: Bearer <accessToken>" when signed in.
+ * On a 401 the access token is refreshed once and the request retried.
+ * @param input - Request URL
+ * @param init - Standard fetch options (bodies must be re-sendable, e.g. strings or FormData)
+ * @returns The fetch response
+ */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  if (typeof window === "undefined") {
+    return fetch(input, init);
+  }
+
+  const res = await fetch(input, withToken(init));
+  if (res.status !== 401) return res;
+
+  refreshInFlight ??= refreshSession().finally(() => {
+    refreshInFlight = null;
+  });
+
+  if (!(await refreshInFlight)) return res;
+  return fetch(input, withToken(init));
+}
+
+/**
+ * Sign out on the server and clear the stored session
+ * @param everywhere - Also end sessions on every other device
+ */
+export async function signOut(everywhere = false) {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  try {
+    if (everywhere) {
+      await authFetch("/api/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ all: true }),
+      });
+    } else if (refreshToken) {
+      await fetch("/api/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+    }
+  } catch (e) {
+    console.error("Failed to sign out on the server:", e);
+  } finally {
+    clearSession();
+  }
+}
@@ -8,11 +8,15 @@ if (!SECRET) throw new Error("Missing JWT_SECRET");
 export interface JwtClaims {
   sub: string; // user id
   role: "USER" | "ADMIN";
+  ver?: number; // User.tokenVersion at issue time; a mismatch means the session was revoked
 }
 
-// Create a token (default expiry = 1 hour)
+// Access tokens are short-lived; clients renew them with a refresh token
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Create a token (default expiry = 15 minutes)
 export function signToken(payload: JwtClaims): string {
-  return jwt.sign(payload, SECRET, { expiresIn: "1h" });
+  return jwt.sign(payload, SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
 // Verify a token string and return decoded data
@@ -31,3 +35,23 @@ export function verifyBearer(authorization?: string | null): JwtClaims {
     throw new Error("BAD_TOKEN");
   }
 }
+
+// Claims of the short-lived token that links the two steps of a two-factor login
+export interface MfaChallengeClaims {
+  sub: string; // user id
+  ver: number; // User.tokenVersion when the password was checked
+  enroll: boolean; // true when the user must set up two-factor before signing in
+}
+
+// Signed with its own key so a challenge token is never accepted as an access token
+const MFA_SECRET = `${SECRET}:mfa-challenge`;
+
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export function signMfaChallenge(payload: MfaChallengeClaims): string {
+  return jwt.sign(payload, MFA_SECRET, { expiresIn: MFA_CHALLENGE_TTL_SECONDS });
+}
+
+export function verifyMfaChallenge(token: string): MfaChallengeClaims {
+  return jwt.verify(token, MFA_SECRET) as MfaChallengeClaims;
+}
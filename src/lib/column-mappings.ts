@@ -0,0 +1,204 @@
+// src/lib/column-mappings.ts
+/**
+ * Column mappings for uploaded files
+ *
+ * An uploaded sheet is read by finding its header row and the column of each
+ * field under it. The built-in header names cover the usual export layout;
+ * admins can save ColumnMappingProfiles for other vendors' layouts with extra
+ * header names per field, fixed column positions, the header row, a date
+ * format and the distance unit. A profile is chosen per upload.
+ */
+
+import type { ColumnMappingProfile, DistanceUnit } from "@prisma/client";
+
+import { parseDistanceUnit } from "./distance";
+import { isValidDateFormat } from "./report-dates";
+
+export const MAPPED_FIELDS = [
+  "vehicleNo",
+  "area",
+  "tankerType",
+  "transporterName",
+  "reportDate",
+  "tripDistance",
+  "distanceUnit",
+  "tripCount",
+] as const;
+
+export type MappedField = (typeof MAPPED_FIELDS)[number];
+
+export type ColumnMapping = {
+  headerAliases: Partial<Record<MappedField, string[]>>;
+  columns: Partial<Record<MappedField, number>>; // 1-based column positions
+  headerRow: number | null;                      // 1-based, 0 for no header row, null to search for it
+  dateFormat: string | null;
+  distanceUnit: DistanceUnit | null;
+};
+
+export type LocatedHeader = {
+  index: number;                         // Table row holding the headers, -1 when there is none
+  columns: Record<MappedField, number>;  // 0-based, -1 when the field has no column
+  defaultDistanceUnit: DistanceUnit;     // For distance values that don't state a unit
+};
+
+// Header names tried for each field, in order
+const DEFAULT_HEADER_NAMES: Record<MappedField, string[]> = {
+  vehicleNo: ["Vehicle No.", "Vehicle No", "Vehicle Number"],
+  area: ["Area"],
+  tankerType: ["Tanker Type", "Type"],
+  transporterName: ["Transporter Name", "Transporter"],
+  reportDate: ["Report Date", "Date"],
+  tripDistance: [
+    "Trip Distance / Engine Hr",
+    "Trip Distance / Engine",
+    "Trip Distance",
+    "Distance",
+    "Engine Hr",
+    "Engine Hours",
+  ],
+  distanceUnit: ["Distance Unit", "Unit", "Metric"],
+  tripCount: ["Trip Count", "Trips", "Trip"],
+};
+
+// Headers that identify the header row when searching for it (with a profile's aliases)
+const HEADER_MARKERS = { vehicleNo: "Vehicle No", reportDate: "Report Date" } as const;
+
+export const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function findColumn(headers: string[], candidates: string[]): number {
+  for (const candidate of candidates) {
+    const idx = headers.findIndex((header) => normalizeHeader(header) === normalizeHeader(candidate));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+}
+
+/**
+ * Find the header row of a sheet and the column of each field
+ * @param rows - Trimmed cell values row by row
+ * @param firstRow - 0-based sheet row of the first table row (for a profile's headerRow)
+ * @param mapping - Profile chosen for the upload, or null for the built-in names
+ * @returns null when the sheet has no recognisable header row
+ */
+export function locateHeader(rows: string[][], firstRow: number, mapping: ColumnMapping | null): LocatedHeader | null {
+  const fixed = mapping?.columns ?? {};
+  const aliases = mapping?.headerAliases ?? {};
+
+  let index: number;
+  if (mapping?.headerRow === 0) {
+    index = -1;
+  } else if (mapping?.headerRow != null) {
+    index = mapping.headerRow - 1 - firstRow;
+    if (index < 0 || index >= rows.length) return null;
+  } else {
+    const marks = (row: string[], field: keyof typeof HEADER_MARKERS) =>
+      fixed[field] !== undefined || findColumn(row, [...(aliases[field] ?? []), HEADER_MARKERS[field]]) !== -1;
+    index = rows.findIndex((row) => marks(row, "vehicleNo") && marks(row, "reportDate"));
+    if (index === -1) return null;
+  }
+
+  const header = index >= 0 ? rows[index] : [];
+  const columnOf = (field: MappedField) =>
+    fixed[field] !== undefined
+      ? fixed[field]! - 1
+      : findColumn(header, [...(aliases[field] ?? []), ...DEFAULT_HEADER_NAMES[field]]);
+  const columns = Object.fromEntries(MAPPED_FIELDS.map((field) => [field, columnOf(field)])) as Record<MappedField, number>;
+
+  // If "Trip Count" is not found, fall back to last column.
+  if (columns.tripCount === -1 && header.length > 0) {
+    columns.tripCount = header.length - 1;
+  }
+
+  // A column that only holds engine hours makes hours the default unit for its values
+  const distanceHeader = normalizeHeader(header[columns.tripDistance] ?? "");
+  const defaultDistanceUnit = mapping?.distanceUnit ?? (distanceHeader.startsWith("engine") ? "ENGINE_HOURS" : "KM");
+
+  return { index, columns, defaultDistanceUnit };
+}
+
+/**
+ * The mapping stored on a profile
+ */
+export function toColumnMapping(profile: ColumnMappingProfile): ColumnMapping {
+  return {
+    headerAliases: (profile.headerAliases ?? {}) as ColumnMapping["headerAliases"],
+    columns: (profile.columns ?? {}) as ColumnMapping["columns"],
+    headerRow: profile.headerRow,
+    dateFormat: profile.dateFormat,
+    distanceUnit: profile.distanceUnit,
+  };
+}
+
+/**
+ * Validate the mapping fields of a profile request body
+ * @param current - Mapping being edited; fields missing from the body keep its values
+ * @throws Error with statusCode 400 describing the first invalid field
+ */
+export function parseColumnMappingInput(body: Record<string, any>, current?: ColumnMapping): ColumnMapping {
+  const invalid = (message: string) => Object.assign(new Error(message), { statusCode: 400 });
+
+  const fieldMap = <T>(name: string, value: unknown, parse: (entry: unknown, field: MappedField) => T) => {
+    if (value === null) return {};
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw invalid(`${name} must be an object keyed by field`);
+    }
+    const result: Partial<Record<MappedField, T>> = {};
+    for (const [field, entry] of Object.entries(value as Record<string, unknown>)) {
+      if (!(MAPPED_FIELDS as readonly string[]).includes(field)) {
+        throw invalid(`Unknown field "${field}" in ${name}; fields are ${MAPPED_FIELDS.join(", ")}`);
+      }
+      result[field as MappedField] = parse(entry, field as MappedField);
+    }
+    return result;
+  };
+
+  const headerAliases =
+    body.headerAliases !== undefined
+      ? fieldMap("headerAliases", body.headerAliases, (entry, field) => {
+          const names = (Array.isArray(entry) ? entry : [entry]).map((name) => String(name ?? "").trim()).filter(Boolean);
+          if (names.length === 0) throw invalid(`headerAliases.${field} must list at least one header name`);
+          return Array.from(new Set(names));
+        })
+      : current?.headerAliases ?? {};
+
+  const columns =
+    body.columns !== undefined
+      ? fieldMap("columns", body.columns, (entry, field) => {
+          const position = Number(entry);
+          if (!Number.isInteger(position) || position < 1) {
+            throw invalid(`columns.${field} must be a column position starting at 1`);
+          }
+          return position;
+        })
+      : current?.columns ?? {};
+
+  let headerRow = current?.headerRow ?? null;
+  if (body.headerRow !== undefined) {
+    headerRow = body.headerRow === null || body.headerRow === "" ? null : Number(body.headerRow);
+    if (headerRow !== null && (!Number.isInteger(headerRow) || headerRow < 0)) {
+      throw invalid("headerRow must be a row number starting at 1, 0 for no header row, or null to search for it");
+    }
+  }
+
+  let dateFormat = current?.dateFormat ?? null;
+  if (body.dateFormat !== undefined) {
+    dateFormat = String(body.dateFormat ?? "").trim().toUpperCase() || null;
+    if (dateFormat && !isValidDateFormat(dateFormat)) {
+      throw invalid("dateFormat must combine DD, MM and YY or YYYY, e.g. MM/DD/YYYY");
+    }
+  }
+
+  let distanceUnit = current?.distanceUnit ?? null;
+  if (body.distanceUnit !== undefined) {
+    distanceUnit = body.distanceUnit === null || body.distanceUnit === "" ? null : parseDistanceUnit(body.distanceUnit);
+    if (body.distanceUnit && !distanceUnit) {
+      throw invalid("distanceUnit must be KM or ENGINE_HOURS");
+    }
+  }
+
+  if (headerRow === 0 && (columns.vehicleNo === undefined || columns.reportDate === undefined)) {
+    throw invalid("Without a header row, vehicleNo and reportDate need fixed columns");
+  }
+
+  return { headerAliases, columns, headerRow, dateFormat, distanceUnit };
+}
@@ -0,0 +1,103 @@
+// src/lib/distance.ts
+/**
+ * Trip distance values
+ *
+ * Most tankers report the distance driven in kilometres, but some only report
+ * engine hours. Reports store the number and its unit separately, and totals
+ * are kept per unit so hours and kilometres are never added together.
+ * Safe to import from client components (type-only Prisma import).
+ */
+
+import type { DistanceUnit } from "@prisma/client";
+
+export type { DistanceUnit };
+
+export const DISTANCE_UNITS: DistanceUnit[] = ["KM", "ENGINE_HOURS"];
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  KM: "km",
+  ENGINE_HOURS: "hr",
+};
+
+const NUMBER_MATCHER = /[-+]?[0-9]*\.?[0-9]+/;              // First number in a value like "123.45 km"
+const DURATION_MATCHER = /^(\d+):([0-5]\d)(?::([0-5]\d))?$/; // Engine hours written as H:MM or H:MM:SS
+const HOURS_MATCHER = /^h$|hr|hour|engine/i;
+const KM_MATCHER = /km|kilomet/i;
+
+export type DistanceTotals = { km: number; engineHours: number };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read a unit name such as "KM", "km", "ENGINE_HOURS", "hr" or "engine hours"
+ * @returns The unit, or null when the value doesn't name one
+ */
+export function parseDistanceUnit(value: unknown): DistanceUnit | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+  if ((DISTANCE_UNITS as string[]).includes(raw.toUpperCase())) return raw.toUpperCase() as DistanceUnit;
+  if (HOURS_MATCHER.test(raw)) return "ENGINE_HOURS";
+  if (KM_MATCHER.test(raw)) return "KM";
+  return null;
+}
+
+/**
+ * Parse a distance cell or API value such as 123.45, "123.45 km", "12.5 hrs" or "5:30"
+ * @param value - Raw value
+ * @param defaultUnit - Unit to assume when the value doesn't say (e.g. from the column header)
+ * @returns The value rounded to 2 decimals (0 when unparseable) and its unit
+ */
+export function parseDistance(value: unknown, defaultUnit: DistanceUnit = "KM"): { value: number; unit: DistanceUnit } {
+  if (value === null || value === undefined) return { value: 0, unit: defaultUnit };
+  if (typeof value === "number") {
+    return { value: Number.isFinite(value) ? round2(value) : 0, unit: defaultUnit };
+  }
+
+  const raw = String(value).trim();
+
+  const duration = raw.match(DURATION_MATCHER);
+  if (duration) {
+    const [, hours, minutes, seconds = "0"] = duration;
+    return {
+      value: round2(Number(hours) + Number(minutes) / 60 + Number(seconds) / 3600),
+      unit: "ENGINE_HOURS",
+    };
+  }
+
+  const unit = parseDistanceUnit(raw.replace(NUMBER_MATCHER, "")) ?? defaultUnit;
+  const match = raw.match(NUMBER_MATCHER);
+  const num = match ? Number.parseFloat(match[0]) : Number.NaN;
+  return { value: Number.isNaN(num) ? 0 : round2(num), unit };
+}
+
+/**
+ * Format a distance with its unit, e.g. "123.45 km" or "5.50 hr"
+ */
+export function formatDistance(value: number, unit: DistanceUnit): string {
+  return `${value.toFixed(2)} ${DISTANCE_UNIT_LABELS[unit]}`;
+}
+
+/**
+ * Add up distances separately per unit
+ */
+export function sumDistances(rows: Array<{ tripDistance: number; distanceUnit: DistanceUnit }>): DistanceTotals {
+  const totals = rows.reduce(
+    (sum, row) => {
+      if (row.distanceUnit === "ENGINE_HOURS") sum.engineHours += row.tripDistance;
+      else sum.km += row.tripDistance;
+      return sum;
+    },
+    { km: 0, engineHours: 0 }
+  );
+  return { km: round2(totals.km), engineHours: round2(totals.engineHours) };
+}
+
+/**
+ * Format per-unit totals, e.g. "1234.50 km", "12.00 hr" or "1234.50 km + 12.00 hr"
+ */
+export function formatDistanceTotals(totals: DistanceTotals): string {
+  const parts: string[] = [];
+  if (totals.km !== 0 || totals.engineHours === 0) parts.push(formatDistance(totals.km, "KM"));
+  if (totals.engineHours !== 0) parts.push(formatDistance(totals.engineHours, "ENGINE_HOURS"));
+  return parts.join(" + ");
+}
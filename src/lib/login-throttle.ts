@@ -0,0 +1,248 @@
+// src/lib/login-throttle.ts
+/**
+ * Login brute-force protection
+ *
+ * - Per account: consecutive failures are counted on the User row
+ *   (failedLoginCount / lastFailedLoginAt / lockedUntil) so admins can see
+ *   them, and every ACCOUNT_LOCK_THRESHOLD failures lock the account for a
+ *   growing period.
+ * - Per IP: failures within a window are counted in an AttemptStore; too many
+ *   block that IP for a while. Requests whose IP isn't known aren't throttled
+ *   per IP, since a shared bucket would let anyone lock everyone out; the
+ *   first such request is logged, as it means the proxy isn't passing the IP.
+ * - Every failure is answered after a progressive delay, and unknown emails
+ *   still pay for a bcrypt comparison so response times don't reveal which
+ *   accounts exist; for the same reason a locked account answers like a wrong
+ *   password.
+ * - Password reset requests are limited per email and per IP with the same
+ *   store, so the endpoint can't be used to flood inboxes.
+ *
+ * The IP store is in-process or database-backed (LoginAttempt table), chosen
+ * with LOGIN_THROTTLE_STORE=memory|database, so no external service is needed.
+ */
+
+import bcrypt from "bcrypt";
+
+import { prisma } from "./prisma";
+
+// Tuning
+const ACCOUNT_LOCK_THRESHOLD = 5;                 // Failures before each account lock
+const ACCOUNT_LOCK_BASE_MS = 15 * 60 * 1000;      // First lock lasts 15 minutes, then doubles
+const ACCOUNT_LOCK_MAX_MS = 24 * 60 * 60 * 1000;  // Never lock for more than a day
+const IP_WINDOW_MS = 15 * 60 * 1000;              // Window for counting failures per IP
+const IP_MAX_FAILURES = 20;                       // Failures per window before an IP is blocked
+const IP_BLOCK_MS = 15 * 60 * 1000;               // How long a blocked IP waits
+const DELAY_BASE_MS = 250;                        // First failure delay, doubling per failure
+const DELAY_MAX_MS = 5000;                        // Upper bound for the failure delay
+const RESET_MAX_PER_EMAIL = 3;                    // Password reset requests per window for one email
+const RESET_MAX_PER_IP = 10;                      // Password reset requests per window from one IP
+
+export type AttemptRecord = {
+  count: number;
+  windowStart: Date;
+  lockedUntil: Date | null;
+};
+
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  set(key: string, record: AttemptRecord): Promise<void>;
+}
+
+/**
+ * In-process store; counters reset when the server restarts and aren't shared
+ * between instances
+ */
+export function createMemoryAttemptStore(): AttemptStore {
+  const records = new Map<string, AttemptRecord>();
+  return {
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+    async set(key, record) {
+      records.set(key, record);
+    },
+  };
+}
+
+/**
+ * Database-backed store using the LoginAttempt table; shared by all instances
+ */
+export function createPrismaAttemptStore(): AttemptStore {
+  return {
+    async get(key) {
+      const row = await prisma.loginAttempt.findUnique({ where: { key } });
+      return row ? { count: row.count, windowStart: row.windowStart, lockedUntil: row.lockedUntil } : null;
+    },
+    async set(key, record) {
+      await prisma.loginAttempt.upsert({
+        where: { key },
+        update: record,
+        create: { key, ...record },
+      });
+    },
+  };
+}
+
+const globalForThrottle = global as unknown as { loginAttemptStore?: AttemptStore };
+
+function getAttemptStore(): AttemptStore {
+  if (!globalForThrottle.loginAttemptStore) {
+    globalForThrottle.loginAttemptStore = process.env.LOGIN_THROTTLE_STORE === "memory"
+      ? createMemoryAttemptStore()
+      : createPrismaAttemptStore();
+  }
+  return globalForThrottle.loginAttemptStore;
+}
+
+const ipKey = (ip: string) => `ip:${ip}`;
+
+let warnedUnknownIp = false;
+
+/**
+ * Log once per process that a request came without a client IP, since per-IP
+ * throttling is then off (usually a missing X-Forwarded-For from the proxy)
+ */
+function warnUnknownIp(): void {
+  if (warnedUnknownIp) return;
+  warnedUnknownIp = true;
+  console.warn(
+    "Login request without a client IP (no X-Forwarded-For or X-Real-IP); per-IP login throttling is off for such requests"
+  );
+}
+
+async function getBlockRemainingMs(key: string): Promise<number> {
+  const record = await getAttemptStore().get(key);
+  if (!record?.lockedUntil) return 0;
+  return Math.max(0, record.lockedUntil.getTime() - Date.now());
+}
+
+/**
+ * Count an attempt within the current window, blocking the key once it reaches the limit
+ * @returns Number of attempts in the current window
+ */
+async function recordAttempt(key: string, limit: number, blockMs: number): Promise<number> {
+  const store = getAttemptStore();
+  const now = new Date();
+  const existing = await store.get(key);
+  const windowExpired = !existing || now.getTime() - existing.windowStart.getTime() > IP_WINDOW_MS;
+
+  const record: AttemptRecord = windowExpired
+    ? { count: 1, windowStart: now, lockedUntil: null }
+    : { ...existing, count: existing.count + 1 };
+
+  if (record.count >= limit) {
+    record.lockedUntil = new Date(now.getTime() + blockMs);
+  }
+
+  await store.set(key, record);
+  return record.count;
+}
+
+/**
+ * Check whether an IP is currently blocked
+ * @param ip - Client IP, or null when it isn't known (never blocked)
+ * @returns Milliseconds until the block ends, or 0 when the IP may try again
+ */
+export async function getIpBlockRemainingMs(ip: string | null): Promise<number> {
+  if (!ip) {
+    warnUnknownIp();
+    return 0;
+  }
+  return getBlockRemainingMs(ipKey(ip));
+}
+
+/**
+ * Count a failed login from an IP, blocking it once it exceeds the window limit
+ * @param ip - Client IP, or null when it isn't known (not counted)
+ * @returns Number of failures from this IP in the current window
+ */
+export async function recordIpFailure(ip: string | null): Promise<number> {
+  return ip ? recordAttempt(ipKey(ip), IP_MAX_FAILURES, IP_BLOCK_MS) : 0;
+}
+
+/**
+ * Count a password reset request for an email (known or not) and from an IP
+ * @returns Milliseconds until the email or IP may ask again, or 0 when this
+ *          request may go ahead
+ */
+export async function throttlePasswordResetRequest(ip: string | null, email: string): Promise<number> {
+  const limits: [string, number][] = [[`reset-email:${email}`, RESET_MAX_PER_EMAIL]];
+  if (ip) limits.push([`reset-ip:${ip}`, RESET_MAX_PER_IP]);
+
+  let remainingMs = 0;
+  for (const [key, limit] of limits) {
+    const blockedMs = await getBlockRemainingMs(key);
+    if (blockedMs > 0) {
+      remainingMs = Math.max(remainingMs, blockedMs);
+    } else {
+      await recordAttempt(key, limit, IP_WINDOW_MS);
+    }
+  }
+  return remainingMs;
+}
+
+/**
+ * Count a failed login against an account, locking it every ACCOUNT_LOCK_THRESHOLD failures
+ * The counter is incremented in the database so concurrent failures each get
+ * their own count and none of them can skip a lock.
+ * @returns The account's consecutive failure count
+ */
+export async function recordAccountFailure(user: { id: string }): Promise<number> {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const { failedLoginCount } = await tx.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+      select: { failedLoginCount: true },
+    });
+
+    if (failedLoginCount % ACCOUNT_LOCK_THRESHOLD === 0) {
+      const lockNumber = failedLoginCount / ACCOUNT_LOCK_THRESHOLD;
+      const lockMs = Math.min(ACCOUNT_LOCK_BASE_MS * 2 ** (lockNumber - 1), ACCOUNT_LOCK_MAX_MS);
+      await tx.user.update({
+        where: { id: user.id },
+        data: { lockedUntil: new Date(now.getTime() + lockMs) },
+      });
+    }
+
+    return failedLoginCount;
+  });
+}
+
+/**
+ * Clear an account's failure counter and lock (successful login or admin unlock)
+ */
+export async function resetAccountFailures(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+/**
+ * Milliseconds until an account lock ends, or 0 when the account isn't locked
+ */
+export function getAccountLockRemainingMs(user: { lockedUntil: Date | null }): number {
+  if (!user.lockedUntil) return 0;
+  return Math.max(0, user.lockedUntil.getTime() - Date.now());
+}
+
+/**
+ * Wait before answering a failed login; doubles with every failure up to DELAY_MAX_MS
+ * @param failures - Failure count including the current one
+ */
+export async function delayAfterFailure(failures: number): Promise<void> {
+  const ms = Math.min(DELAY_BASE_MS * 2 ** Math.max(0, failures - 1), DELAY_MAX_MS);
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Spend the same bcrypt work as a real password check (for unknown emails)
+ */
+export async function compareWithDummyHash(password: string): Promise<void> {
+  dummyHash ??= bcrypt.hash("login-timing-equaliser", 12);
+  await bcrypt.compare(password, await dummyHash);
+}
@@ -0,0 +1,267 @@
+// src/lib/master-data.ts
+/**
+ * Area and transporter master data
+ *
+ * Areas and transporters are managed lists, each entry with a canonical name
+ * and aliases. Incoming text resolves to the canonical name when it matches the
+ * name or an alias ignoring case, spaces and punctuation, so "ABC Tpt" and
+ * "ABC Transport" end up in the same group. While a list is empty its values
+ * aren't checked, so new deployments work before the lists are set up.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+import { recordAuditEvents, reportAuditEvent, type AuditContext } from "./audit";
+import { prisma } from "./prisma";
+import { archiveReportVersions, NEXT_VERSION } from "./report-versions";
+
+export const MASTER_DATA_KINDS = ["areas", "transporters"] as const;
+
+export type MasterDataKind = (typeof MASTER_DATA_KINDS)[number];
+
+export type UnknownMasterData = { areas: string[]; transporters: string[] };
+
+type MasterRecord = { id: string; name: string; aliases: string[]; isActive: boolean };
+
+// Field holding each kind's value on Report, Vehicle and VehicleAssignment
+const VALUE_FIELD: Record<MasterDataKind, "area" | "transporterName"> = {
+  areas: "area",
+  transporters: "transporterName",
+};
+
+const LABELS: Record<MasterDataKind, string> = {
+  areas: "area",
+  transporters: "transporter",
+};
+
+/**
+ * Validate the list name from a route segment
+ * @throws Error with statusCode 404 for anything but "areas" or "transporters"
+ */
+export function parseMasterDataKind(value: string): MasterDataKind {
+  if (!(MASTER_DATA_KINDS as readonly string[]).includes(value)) {
+    throw Object.assign(new Error("Unknown master data list"), { statusCode: 404 });
+  }
+  return value as MasterDataKind;
+}
+
+/**
+ * Comparison key for names and aliases: lower case letters and digits only
+ */
+export function masterDataKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Trim and de-duplicate aliases, dropping blanks and spellings of the name itself
+ * @throws Error with statusCode 400 when aliases isn't an array
+ */
+export function normalizeAliases(aliases: unknown, name: string): string[] {
+  if (!Array.isArray(aliases)) {
+    throw Object.assign(new Error("aliases must be an array"), { statusCode: 400 });
+  }
+  const seen = new Set([masterDataKey(name)]);
+  const result: string[] = [];
+  for (const alias of aliases) {
+    const value = String(alias ?? "").trim();
+    const key = masterDataKey(value);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(value);
+  }
+  return result;
+}
+
+/**
+ * All entries of one list
+ */
+export async function findMasterRecords(db: Prisma.TransactionClient, kind: MasterDataKind): Promise<MasterRecord[]> {
+  const args = { orderBy: { name: "asc" as const } };
+  return kind === "areas" ? db.area.findMany(args) : db.transporter.findMany(args);
+}
+
+/**
+ * Ensure none of the names or aliases is already used by another entry of the list
+ * @param exceptIds - Entries to ignore (the one being edited, or merged away)
+ * @throws Error with statusCode 409 naming the entry that already uses a value
+ */
+export async function assertNamesAvailable(
+  db: Prisma.TransactionClient,
+  kind: MasterDataKind,
+  names: string[],
+  exceptIds: string[] = []
+): Promise<void> {
+  const owners = new Map<string, string>();
+  for (const record of await findMasterRecords(db, kind)) {
+    if (exceptIds.includes(record.id)) continue;
+    for (const value of [record.name, ...record.aliases]) {
+      owners.set(masterDataKey(value), record.name);
+    }
+  }
+
+  for (const name of names) {
+    const owner = owners.get(masterDataKey(name));
+    if (owner) {
+      throw Object.assign(new Error(`"${name}" is already used by ${LABELS[kind]} "${owner}"`), { statusCode: 409 });
+    }
+  }
+}
+
+/**
+ * Load both lists and map every name and alias to its canonical name
+ * Inactive entries still count towards a list being set up but don't resolve.
+ * @returns Resolver returning the canonical name (blank stays blank), or null
+ *          when the value is unknown
+ */
+export async function loadMasterDataResolver(
+  db: Prisma.TransactionClient = prisma
+): Promise<(kind: MasterDataKind, value: string) => string | null> {
+  const [areas, transporters] = await Promise.all([
+    findMasterRecords(db, "areas"),
+    findMasterRecords(db, "transporters"),
+  ]);
+
+  const buildLookup = (records: MasterRecord[]) => {
+    if (records.length === 0) return null;
+    const lookup = new Map<string, string>();
+    for (const record of records) {
+      if (!record.isActive) continue;
+      for (const value of [record.name, ...record.aliases]) {
+        lookup.set(masterDataKey(value), record.name);
+      }
+    }
+    return lookup;
+  };
+
+  const lookups: Record<MasterDataKind, Map<string, string> | null> = {
+    areas: buildLookup(areas),
+    transporters: buildLookup(transporters),
+  };
+
+  return (kind, value) => {
+    const trimmed = value.trim();
+    const lookup = lookups[kind];
+    if (!trimmed || !lookup) return trimmed;
+    return lookup.get(masterDataKey(trimmed)) ?? null;
+  };
+}
+
+/**
+ * Replace each row's area and transporter with the canonical names
+ * @param current - Stored values of the row being edited; a value left as it is
+ *                  is kept without checking, so rows with legacy values can still
+ *                  have their other fields edited
+ * @returns The resolved rows
+ * @throws Error with statusCode 400 listing unknown values, also attached as
+ *         unknownValues ({ areas, transporters }) for the response body
+ */
+export async function resolveMasterData<T extends { area: string; transporterName: string }>(
+  rows: T[],
+  current?: { area: string; transporterName: string }
+): Promise<T[]> {
+  const lookup = await loadMasterDataResolver();
+  const resolve = (kind: MasterDataKind, value: string, kept: string | undefined) =>
+    kept !== undefined && value.trim() === kept ? kept : lookup(kind, value);
+  const unknown = { areas: new Set<string>(), transporters: new Set<string>() };
+
+  const resolved = rows.map((row) => {
+    const area = resolve("areas", row.area, current?.area);
+    const transporterName = resolve("transporters", row.transporterName, current?.transporterName);
+    if (area === null) unknown.areas.add(row.area.trim());
+    if (transporterName === null) unknown.transporters.add(row.transporterName.trim());
+    return { ...row, area: area ?? row.area, transporterName: transporterName ?? row.transporterName };
+  });
+
+  if (unknown.areas.size > 0 || unknown.transporters.size > 0) {
+    const unknownValues: UnknownMasterData = {
+      areas: Array.from(unknown.areas).sort(),
+      transporters: Array.from(unknown.transporters).sort(),
+    };
+    const parts = [
+      unknownValues.areas.length ? `unknown area(s): ${unknownValues.areas.join(", ")}` : null,
+      unknownValues.transporters.length ? `unknown transporter(s): ${unknownValues.transporters.join(", ")}` : null,
+    ].filter(Boolean);
+    const message = parts.join("; ");
+    throw Object.assign(new Error(message.charAt(0).toUpperCase() + message.slice(1)), {
+      statusCode: 400,
+      unknownValues,
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Rewrite every stored use of some names to a new canonical name
+ * Covers report rows (each versioned and recorded in the audit log), vehicles and their
+ * assignments, and for areas the users' and pending invites' area lists.
+ * @param fromNames - Names being replaced
+ * @param toName - Canonical name to store instead
+ * @returns Number of report rows changed
+ */
+export async function renameMasterValue(
+  tx: Prisma.TransactionClient,
+  kind: MasterDataKind,
+  fromNames: string[],
+  toName: string,
+  audit: AuditContext
+): Promise<number> {
+  const names = fromNames.filter((name) => name !== toName);
+  if (names.length === 0) return 0;
+
+  const field = VALUE_FIELD[kind];
+  const reports = await tx.report.findMany({ where: { [field]: { in: names } } });
+  if (reports.length > 0) {
+    await archiveReportVersions(tx, reports, audit.actorEmail);
+    await tx.report.updateMany({
+      where: { id: { in: reports.map((report) => report.id) } },
+      data: { [field]: toName, ...NEXT_VERSION },
+    });
+    await recordAuditEvents(
+      tx,
+      reports.map((report) => reportAuditEvent(audit, "REPORT_UPDATE", report, { ...report, [field]: toName }))
+    );
+  }
+
+  await tx.vehicle.updateMany({ where: { [field]: { in: names } }, data: { [field]: toName } });
+  await tx.vehicleAssignment.updateMany({ where: { [field]: { in: names } }, data: { [field]: toName } });
+
+  if (kind === "areas") {
+    await tx.$executeRaw`
+      UPDATE "User"
+      SET "areas" = ARRAY(
+        SELECT DISTINCT CASE WHEN a = ANY(${names}::TEXT[]) THEN ${toName}::TEXT ELSE a END
+        FROM UNNEST("areas") AS a
+        ORDER BY 1
+      )
+      WHERE "areas" && ${names}::TEXT[]
+    `;
+    await tx.$executeRaw`
+      UPDATE "UserInvite"
+      SET "areas" = ARRAY(
+        SELECT DISTINCT CASE WHEN a = ANY(${names}::TEXT[]) THEN ${toName}::TEXT ELSE a END
+        FROM UNNEST("areas") AS a
+        ORDER BY 1
+      )
+      WHERE "areas" && ${names}::TEXT[]
+    `;
+  }
+
+  return reports.length;
+}
+
+/**
+ * Number of report rows and vehicles that use a name
+ */
+export async function countMasterValueUses(
+  db: Prisma.TransactionClient,
+  kind: MasterDataKind,
+  name: string
+): Promise<number> {
+  const field = VALUE_FIELD[kind];
+  const [reports, vehicles] = await Promise.all([
+    db.report.count({ where: { [field]: name } }),
+    db.vehicle.count({ where: { [field]: name } }),
+  ]);
+  return reports + vehicles;
+}
@@ -0,0 +1,103 @@
+// src/lib/pdf-storage.ts
+/**
+ * Generated PDF storage
+ *
+ * Generated PDFs are kept in object storage (see storage) under
+ * "pdfs/<verification code>.pdf", with the key, SHA-256 and size recorded on
+ * the PdfGeneration row. PDFs generated before that were stored base64-encoded
+ * in PdfGeneration.pdfBase64; moveDatabasePdfs moves them out in batches. The
+ * move runs in the background when a server starts and whenever a PDF is
+ * still served from the database (at most once an hour), and can be run by
+ * hand through /api/admin/pdf-storage. pdfBase64 is dropped once it is empty
+ * everywhere (see README).
+ */
+
+import { prisma } from "./prisma";
+import { getStorage, hashContent, safeKeySegment } from "./storage";
+
+export type StoredPdfFields = {
+  pdfKey: string;
+  pdfSha256: string;
+  pdfSize: number;
+};
+
+const PDF_CONTENT_TYPE = "application/pdf";
+
+// Constants
+const MOVE_BATCH_SIZE = 50;                    // PDFs moved per batch in the background
+const MOVE_INTERVAL_MS = 60 * 60 * 1000;       // Minimum time between background moves
+
+let lastMoveAt = 0;
+
+/**
+ * Write a generated PDF to storage
+ * @returns The PdfGeneration fields to save with it
+ */
+export async function storePdf(verificationCode: string, pdf: Buffer): Promise<StoredPdfFields> {
+  const pdfKey = `pdfs/${safeKeySegment(verificationCode)}.pdf`;
+  await getStorage().put(pdfKey, pdf, PDF_CONTENT_TYPE);
+  return { pdfKey, pdfSha256: hashContent(pdf), pdfSize: pdf.length };
+}
+
+/**
+ * Move PDFs still held in the database to storage
+ * Each PDF is written and read back before its database copy is cleared, so
+ * an interrupted run can simply be repeated.
+ * @param limit - Most PDFs to move in this call
+ * @returns How many were moved and how many are still in the database
+ */
+export async function moveDatabasePdfs(limit: number): Promise<{ moved: number; remaining: number }> {
+  const records = await prisma.pdfGeneration.findMany({
+    where: { pdfBase64: { not: null } },
+    select: { id: true, verificationCode: true, pdfBase64: true },
+    orderBy: { generatedAt: "asc" },
+    take: limit,
+  });
+
+  let moved = 0;
+  for (const record of records) {
+    const pdf = Buffer.from(record.pdfBase64!, "base64");
+    const stored = await storePdf(record.verificationCode, pdf);
+
+    const copy = await getStorage().get(stored.pdfKey);
+    if (!copy || hashContent(copy) !== stored.pdfSha256) {
+      throw new Error(`PDF ${record.verificationCode} did not read back intact from storage`);
+    }
+
+    await prisma.pdfGeneration.update({
+      where: { id: record.id },
+      data: { ...stored, pdfBase64: null },
+    });
+    moved += 1;
+  }
+
+  const remaining = await prisma.pdfGeneration.count({ where: { pdfBase64: { not: null } } });
+  return { moved, remaining };
+}
+
+/**
+ * Move every PDF still held in the database to storage, batch by batch
+ * Skipped when the last run started under an hour ago.
+ * @returns Number of PDFs moved
+ */
+export async function moveAllDatabasePdfs(now = new Date()): Promise<number> {
+  if (now.getTime() - lastMoveAt < MOVE_INTERVAL_MS) return 0;
+  lastMoveAt = now.getTime();
+
+  let total = 0;
+  for (;;) {
+    const { moved, remaining } = await moveDatabasePdfs(MOVE_BATCH_SIZE);
+    total += moved;
+    if (moved === 0 || remaining === 0) break;
+  }
+  return total;
+}
+
+/**
+ * Run moveAllDatabasePdfs without holding up the caller; failures are only logged
+ */
+export function scheduleMoveDatabasePdfs(): void {
+  moveAllDatabasePdfs().catch((error) => {
+    console.error("Failed to move PDFs from the database to storage", error);
+  });
+}
@@ -0,0 +1,58 @@
+// src/lib/permissions.ts
+/**
+ * Role-based permissions
+ *
+ * Maps each Role to the actions it may perform. Route handlers declare the
+ * permission they need via requireUser(req, permission); the dashboard uses
+ * hasPermission() to hide actions the current role can't perform.
+ * Safe to import from client components (no server-only dependencies).
+ */
+
+import type { JwtClaims } from "./auth";
+
+export type Role = JwtClaims["role"];
+
+export type Permission =
+  | "reports:read"      // List report rows and download generated PDFs
+  | "reports:write"     // Upload workbooks, add and edit rows
+  | "reports:delete"    // Delete report rows
+  | "reports:generate"  // Generate verifiable PDFs
+  | "uploads:rollback"  // Roll back an entire upload snapshot
+  | "users:manage"      // Invite, edit and deactivate users
+  | "vehicles:manage"   // Add, edit and remove vehicles in the registry
+  | "masterdata:manage" // Maintain the area and transporter lists, their aliases and upload column mappings
+  | "audit:read"        // View the audit log of report changes and PDF generation
+  | "storage:manage"    // Move stored files such as generated PDFs between storage locations
+  | "areas:all";        // Access every area instead of only the user's assigned areas
+
+const USER_PERMISSIONS: Permission[] = [
+  "reports:read",
+  "reports:write",
+  "reports:generate",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  USER: USER_PERMISSIONS,
+  ADMIN: [
+    ...USER_PERMISSIONS,
+    "reports:delete",
+    "uploads:rollback",
+    "users:manage",
+    "vehicles:manage",
+    "masterdata:manage",
+    "audit:read",
+    "storage:manage",
+    "areas:all",
+  ],
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - User role (unknown roles have no permissions)
+ * @param permission - Permission to check
+ * @returns true when the role includes the permission
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as Role].includes(permission);
+}
@@ -0,0 +1,97 @@
+// src/lib/recycle-bin.ts
+/**
+ * Report recycle bin
+ *
+ * Deleting a report row only marks it with deletedAt/deletedBy. Deleted rows
+ * are left out of listings, edits, PDF generation and verification, and can be
+ * restored or purged for good from the recycle bin. Rows deleted more than
+ * RECYCLE_BIN_RETENTION_DAYS ago (default 30, 0 keeps them forever) are purged
+ * automatically. There is no scheduler, so the purge runs at most once an hour
+ * when rows are deleted or the recycle bin is opened.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+import { recordAuditEvents, reportAuditEvent, type AuditContext } from "./audit";
+import { prisma } from "./prisma";
+
+// Spread into Report where clauses to skip rows in the recycle bin
+export const LIVE_REPORTS = { deletedAt: null } satisfies Prisma.ReportWhereInput;
+
+// Spread into Report where clauses to select only rows in the recycle bin
+export const DELETED_REPORTS = { deletedAt: { not: null } } satisfies Prisma.ReportWhereInput;
+
+// Constants
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;   // Minimum time between automatic purges
+const PURGE_BATCH_SIZE = 500;               // Number of rows removed per transaction
+
+// Actor recorded on events written by the automatic purge
+const SYSTEM_AUDIT_CONTEXT: AuditContext = {
+  actorId: null,
+  actorEmail: null,
+  apiKeyId: null,
+  ipAddress: null,
+  userAgent: null,
+};
+
+let lastPurgeAt = 0;
+
+/**
+ * Days a deleted row stays in the recycle bin; 0 when rows are kept forever
+ */
+export function getRetentionDays(): number {
+  const raw = process.env.RECYCLE_BIN_RETENTION_DAYS;
+  if (raw === undefined || raw.trim() === "") return DEFAULT_RETENTION_DAYS;
+  const days = Number(raw);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Permanently remove report rows, recording a REPORT_PURGE event for each
+ * @param ids - Rows to remove; rows not in the recycle bin are ignored
+ * @returns Number of rows removed
+ */
+export async function purgeReports(tx: Prisma.TransactionClient, ids: string[], audit: AuditContext): Promise<number> {
+  const reports = await tx.report.findMany({ where: { id: { in: ids }, ...DELETED_REPORTS } });
+  if (reports.length === 0) return 0;
+  await tx.report.deleteMany({ where: { id: { in: reports.map((report) => report.id) } } });
+  await recordAuditEvents(tx, reports.map((report) => reportAuditEvent(audit, "REPORT_PURGE", report, null)));
+  return reports.length;
+}
+
+/**
+ * Purge rows whose retention period has run out
+ * Skipped when retention is disabled or the last purge was under an hour ago.
+ * @returns Number of rows removed
+ */
+export async function purgeExpiredReports(now = new Date()): Promise<number> {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === 0 || now.getTime() - lastPurgeAt < PURGE_INTERVAL_MS) return 0;
+  lastPurgeAt = now.getTime();
+
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  let purged = 0;
+  for (;;) {
+    const expired = await prisma.report.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE,
+    });
+    if (expired.length === 0) break;
+    purged += await prisma.$transaction((tx) =>
+      purgeReports(tx, expired.map((report) => report.id), SYSTEM_AUDIT_CONTEXT)
+    );
+    if (expired.length < PURGE_BATCH_SIZE) break;
+  }
+  return purged;
+}
+
+/**
+ * Run purgeExpiredReports without holding up the request; failures are only logged
+ */
+export function schedulePurgeExpiredReports(): void {
+  purgeExpiredReports().catch((error) => {
+    console.error("Failed to purge expired reports", error);
+  });
+}
@@ -0,0 +1,171 @@
+// src/lib/report-dates.ts
+/**
+ * Report date helpers
+ *
+ * Report.reportDate is a calendar date (Postgres DATE), which Prisma hands
+ * back as a Date at UTC midnight. Everything here works in UTC so a date never
+ * shifts by a day with the server's time zone. API responses, PDFs and the
+ * audit log keep showing dates as DD-MM-YYYY.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a UTC-midnight date, rejecting impossible days such as 31-02-2025
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a report date from any format seen in uploads and API requests
+ * Handles: Date objects, Excel serial numbers, DD-MM-YYYY, DD/MM/YYYY (2- or
+ * 4-digit years), YYYY-MM-DD and other strings the JS Date parser accepts.
+ * Summary rows (a range containing " - ") are rejected.
+ * @param input - Date in any format
+ * @returns The date at UTC midnight, or null if invalid
+ */
+export function parseReportDate(input: unknown): Date | null {
+  if (!input) return null;
+
+  // Date objects carry the intended calendar day in local time
+  if (input instanceof Date) {
+    if (Number.isNaN(input.valueOf())) return null;
+    return utcDate(input.getFullYear(), input.getMonth() + 1, input.getDate());
+  }
+
+  const raw = String(input).trim();
+  if (!raw) return null;
+
+  // Summary rows contain a range like "01-07-2025 - 31-07-2025"
+  if (raw.includes(" - ")) {
+    return null;
+  }
+
+  // Excel may serialise dates as numbers (days since 30-12-1899)
+  const asNumber = Number(raw);
+  if (!Number.isNaN(asNumber) && raw.length <= 5) {
+    const excelEpoch = Date.UTC(1899, 11, 30);
+    return new Date(excelEpoch + Math.floor(asNumber) * DAY_MS);
+  }
+
+  // DD-MM-YYYY or DD/MM/YYYY
+  const segments = raw.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{2,4})$/);
+  if (segments) {
+    let year = Number(segments[3]);
+    if (segments[3].length === 2) {
+      year += year >= 70 ? 1900 : 2000;
+    }
+    return utcDate(year, Number(segments[2]), Number(segments[1]));
+  }
+
+  // YYYY-MM-DD (optionally followed by a time, e.g. an ISO timestamp)
+  const isoMatch = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|T)/);
+  if (isoMatch) {
+    return utcDate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  // Attempt native parsing as fallback
+  const parsed = new Date(raw);
+  if (!Number.isNaN(parsed.valueOf())) {
+    return utcDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+  }
+
+  return null;
+}
+
+const DATE_FORMAT_TOKENS = /YYYY|YY|MM|DD/g;
+
+/**
+ * Check a date format for parseReportDateWithFormat: DD, MM and YY or YYYY,
+ * each once, separated by anything but letters and digits
+ */
+export function isValidDateFormat(format: string): boolean {
+  const tokens = format.match(DATE_FORMAT_TOKENS) ?? [];
+  const kinds = new Set(tokens.map((token) => token[0]));
+  return (
+    tokens.length === 3 &&
+    kinds.size === 3 &&
+    !/[A-Za-z0-9]/.test(format.replace(DATE_FORMAT_TOKENS, ""))
+  );
+}
+
+/**
+ * Parse a report date written in a fixed day/month/year order
+ * @param format - Pattern such as "MM/DD/YYYY" or "YYYY.MM.DD" (see isValidDateFormat)
+ * @returns The date at UTC midnight, or null when the value doesn't follow the format
+ */
+export function parseReportDateWithFormat(input: unknown, format: string): Date | null {
+  const raw = String(input ?? "").trim();
+  if (!raw || !isValidDateFormat(format)) return null;
+
+  const order: string[] = [];
+  const pattern = format.replace(/YYYY|YY|MM|DD|[^A-Za-z0-9]+/g, (part) => {
+    if (!/^[YMD]/.test(part)) return part.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    order.push(part);
+    return part === "YYYY" ? "(\\d{4})" : part === "YY" ? "(\\d{2})" : "(\\d{1,2})";
+  });
+  const match = raw.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+
+  const values: Record<string, number> = {};
+  order.forEach((token, index) => {
+    let value = Number(match[index + 1]);
+    if (token === "YY") value += value >= 70 ? 1900 : 2000;
+    values[token[0]] = value;
+  });
+  return utcDate(values.Y, values.M, values.D);
+}
+
+/**
+ * Format a report date as DD-MM-YYYY
+ */
+export function formatReportDate(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  return `${day}-${month}-${date.getUTCFullYear()}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD query param as the start of that day (UTC)
+ * @param name - Param name, for the error message
+ * @throws Error with statusCode 400 when the value isn't a date
+ */
+export function parseDayParam(name: string, value: string): Date {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime())) {
+    throw Object.assign(new Error(`${name} must be a date in YYYY-MM-DD format`), { statusCode: 400 });
+  }
+  return date;
+}
+
+/**
+ * Replace a report's reportDate with its DD-MM-YYYY form for API responses
+ */
+export function serializeReport<T extends { reportDate: Date }>(report: T): Omit<T, "reportDate"> & { reportDate: string } {
+  return { ...report, reportDate: formatReportDate(report.reportDate) };
+}
+
+/**
+ * Prisma filter for reports dated within any of the given months
+ * @param months - Month keys in YYYY-MM format; malformed keys are ignored
+ * @returns The filter, or null when no valid month was given
+ */
+export function reportMonthsWhere(months: string[]): Prisma.ReportWhereInput | null {
+  const ranges = months.flatMap((monthKey) => {
+    const match = monthKey.trim().match(/^(\d{4})-(\d{1,2})$/);
+    if (!match) return [];
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return [];
+    return [{ reportDate: { gte: new Date(Date.UTC(year, month - 1, 1)), lt: new Date(Date.UTC(year, month, 1)) } }];
+  });
+
+  return ranges.length > 0 ? { OR: ranges } : null;
+}
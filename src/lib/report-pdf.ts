@@ -13,8 +13,12 @@
  */
 
 import { promises as fs } from "fs";
+import type { DistanceUnit } from "@prisma/client";
 import QRCode from "qrcode";
 
+import { formatDistance, formatDistanceTotals, sumDistances } from "./distance";
+import { formatReportDate } from "./report-dates";
+
 // Constants for PDF Layout
 const mmToPt = (mm: number) => (mm * 72) / 25.4; // Convert mm to points (1 inch = 25.4 mm, 1 inch = 72 pt)
 const PAGE_WIDTH_PT = mmToPt(297);              // Custom page width
@@ -28,8 +32,9 @@ type Row = {
   vehicleNo: string;
   tankerType: string;
   transporterName: string;
-  reportDate: string;
-  tripDistanceKm: string;
+  reportDate: Date;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
   tripCount: number;
 };
 
@@ -113,11 +118,8 @@ export async function buildReportPdf({
     { label: "Trip Count", width: 70 },
   ];
 
-  // Calculate totals for summary
-  const totalKm = rows.reduce((sum, r) => {
-    const numericDistance = parseFloat(r.tripDistanceKm);
-    return sum + (Number.isFinite(numericDistance) ? numericDistance : 0);
-  }, 0).toFixed(2);
+  // Calculate totals for summary (kilometres and engine hours are kept apart)
+  const distanceTotals = sumDistances(rows);
 
   const totalTrips = rows.reduce((sum, r) => {
     return sum + (Number.isFinite(r.tripCount) ? r.tripCount : 0);
@@ -216,7 +218,7 @@ export async function buildReportPdf({
         firstRow?.tankerType || "",
         firstRow?.transporterName || "",
         `${fmtDate(dateFrom)} - ${fmtDate(dateTo)}`,
-        `${totalKm} km`,
+        formatDistanceTotals(distanceTotals),
         String(totalTrips),
       ];
 
@@ -250,8 +252,8 @@ export async function buildReportPdf({
         row.vehicleNo,
         row.tankerType,
         row.transporterName,
-        row.reportDate,
-        row.tripDistanceKm,
+        formatReportDate(row.reportDate),
+        formatDistance(row.tripDistance, row.distanceUnit),
         String(row.tripCount),
       ];
 
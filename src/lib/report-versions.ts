@@ -0,0 +1,62 @@
+// src/lib/report-versions.ts
+/**
+ * Report row version history
+ *
+ * Report.version counts the changes to a row. Before any write replaces a
+ * row's values, the current values are copied to ReportVersion with who made
+ * the change and, for uploads, the snapshot that replaced them, along with
+ * whether the row was in the recycle bin at the time. Writers call
+ * archiveReportVersions with the rows as loaded before the change and apply
+ * NEXT_VERSION in the same update, inside one transaction.
+ */
+
+import type { Prisma, Report, ReportVersion } from "@prisma/client";
+
+import { formatReportDate } from "./report-dates";
+
+// Spread into Report update data to move the row to its next version
+export const NEXT_VERSION = { version: { increment: 1 } } as const;
+
+/**
+ * Copy the current values of rows that are about to change
+ * @param db - Transaction client of the change
+ * @param reports - Rows as loaded before the change
+ * @param replacedBy - Email of the user making the change
+ * @param replacedBySnapshot - Upload snapshot making the change, if any
+ */
+export async function archiveReportVersions(
+  db: Prisma.TransactionClient,
+  reports: Report[],
+  replacedBy: string | null,
+  replacedBySnapshot: string | null = null
+): Promise<void> {
+  if (reports.length === 0) return;
+  await db.reportVersion.createMany({
+    data: reports.map((report) => ({
+      reportId: report.id,
+      version: report.version,
+      vehicleNo: report.vehicleNo,
+      area: report.area,
+      tankerType: report.tankerType,
+      transporterName: report.transporterName,
+      reportDate: report.reportDate,
+      tripDistance: report.tripDistance,
+      distanceUnit: report.distanceUnit,
+      tripCount: report.tripCount,
+      snapshotCode: report.snapshotCode,
+      uploadedBy: report.uploadedBy,
+      uploadedAt: report.uploadedAt,
+      replacedBy,
+      replacedBySnapshot,
+      deletedAt: report.deletedAt,
+      deletedBy: report.deletedBy,
+    })),
+  });
+}
+
+/**
+ * Format a stored version for API responses (report date as DD-MM-YYYY)
+ */
+export function serializeReportVersion(version: ReportVersion) {
+  return { ...version, reportDate: formatReportDate(version.reportDate) };
+}
@@ -0,0 +1,27 @@
+// src/lib/request-info.ts
+/**
+ * Client metadata helpers for API routes
+ */
+
+/**
+ * Client IP as seen by the trusted proxy (Vercel/nginx)
+ * Proxies append the address they received the request from to
+ * X-Forwarded-For, so only its last entry is trustworthy; anything before it
+ * was sent by the client.
+ * @param req - Incoming request
+ * @returns The client IP, or null when it can't be determined
+ */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",").at(-1)?.trim() || null;
+  }
+  return req.headers.get("x-real-ip")?.trim() || null;
+}
+
+/**
+ * User-Agent header of the request, if any
+ */
+export function getUserAgent(req: Request): string | null {
+  return req.headers.get("user-agent");
+}
@@ -0,0 +1,147 @@
+// src/lib/sessions.ts
+/**
+ * Login sessions
+ *
+ * A session is a short-lived JWT access token plus an opaque refresh token
+ * stored (hashed) in the RefreshToken table. Refresh tokens rotate on every
+ * use; presenting an already-rotated token is treated as theft and revokes
+ * every session of that user.
+ */
+
+import { prisma } from "./prisma";
+import { ACCESS_TOKEN_TTL_SECONDS, signToken } from "./auth";
+import { getClientIp, getUserAgent } from "./request-info";
+import { generateToken, hashToken } from "./tokens";
+import { isTwoFactorEnforced } from "./two-factor";
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+type SessionUser = {
+  id: string;
+  role: string;
+  tokenVersion: number;
+};
+
+export type SessionTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+};
+
+/**
+ * Read client metadata recorded alongside a refresh token
+ */
+function clientInfo(req?: Request) {
+  if (!req) return { userAgent: null, ipAddress: null };
+  return { userAgent: getUserAgent(req), ipAddress: getClientIp(req) };
+}
+
+/**
+ * Issue a new access/refresh token pair for a user
+ * @param user - User to sign in (tokenVersion is embedded in the access token)
+ * @param req - Request used to record user agent and IP (optional)
+ * @returns The tokens to hand to the client, plus the stored refresh token id
+ */
+export async function issueSession(user: SessionUser, req?: Request): Promise<SessionTokens & { refreshTokenId: string }> {
+  const { token, tokenHash } = generateToken();
+  const stored = await prisma.refreshToken.create({
+    data: {
+      userId: user.id,
+      tokenHash,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      ...clientInfo(req),
+    },
+  });
+
+  return {
+    accessToken: signToken({ sub: user.id, role: user.role as "USER" | "ADMIN", ver: user.tokenVersion }),
+    refreshToken: token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshTokenId: stored.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair, revoking the old one
+ * @param refreshToken - Raw refresh token from the client
+ * @param req - Request used to record user agent and IP (optional)
+ * @returns New session tokens
+ * @throws Error with statusCode 401 when the token is unknown, expired, revoked,
+ *         or belongs to a deactivated user
+ */
+export async function rotateRefreshToken(refreshToken: string, req?: Request): Promise<SessionTokens> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: true },
+  });
+
+  if (!stored) {
+    throw Object.assign(new Error("Invalid refresh token"), { statusCode: 401 });
+  }
+
+  if (stored.revokedAt) {
+    // A rotated token showing up again means someone else holds a copy of it
+    if (stored.replacedBy) {
+      await revokeAllSessions(stored.userId);
+    }
+    throw Object.assign(new Error("Refresh token has been revoked"), { statusCode: 401 });
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw Object.assign(new Error("Refresh token has expired"), { statusCode: 401 });
+  }
+
+  if (!stored.user.isActive) {
+    throw Object.assign(new Error("Account is deactivated"), { statusCode: 401 });
+  }
+
+  // Sessions from before two-factor was enforced end here, sending the user through enrolment
+  if (isTwoFactorEnforced(stored.user) && !stored.user.totpEnabledAt) {
+    throw Object.assign(new Error("Two-factor authentication is required, please sign in again"), { statusCode: 401 });
+  }
+
+  const { refreshTokenId, ...session } = await issueSession(stored.user, req);
+
+  // Conditional update so two concurrent refreshes can't both rotate the same token
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date(), replacedBy: refreshTokenId },
+  });
+
+  if (count === 0) {
+    await prisma.refreshToken.update({ where: { id: refreshTokenId }, data: { revokedAt: new Date() } });
+    throw Object.assign(new Error("Refresh token has been revoked"), { statusCode: 401 });
+  }
+
+  return session;
+}
+
+/**
+ * Revoke a single refresh token (normal sign-out)
+ * Unknown or already revoked tokens are ignored
+ * @param refreshToken - Raw refresh token from the client
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Revoke every session of a user ("sign out everywhere", deactivation, password reset)
+ * Revokes all refresh tokens and bumps tokenVersion so outstanding access tokens stop working
+ * @param userId - User whose sessions should end
+ */
+export async function revokeAllSessions(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+    }),
+  ]);
+}
@@ -0,0 +1,271 @@
+// src/lib/storage.ts
+/**
+ * File storage
+ *
+ * Files the app keeps (original uploaded workbooks, generated PDFs) go through
+ * an ObjectStorage so the backend can be swapped by configuration:
+ * - STORAGE_BACKEND=local (default outside production): files under
+ *   STORAGE_LOCAL_DIR, by default .storage in the working directory
+ * - STORAGE_BACKEND=s3: S3_BUCKET on any S3-compatible service (AWS, MinIO,
+ *   R2...), with S3_ENDPOINT (default https://s3.<region>.amazonaws.com),
+ *   S3_REGION (default us-east-1), S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.
+ *   Objects are addressed path-style, which every such service accepts.
+ * Production has no default: serverless hosts such as Vercel have no lasting
+ * local disk, so STORAGE_BACKEND must be set and the server refuses to start
+ * without it (see instrumentation).
+ * Objects are addressed by a key such as "uploads/<snapshot>/<file name>";
+ * callers record the key together with the content hash from hashContent so a
+ * stored file can be checked against what was received.
+ */
+
+import { createHash, createHmac } from "crypto";
+import { createReadStream } from "fs";
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+
+export type StoredObjectStream = {
+  body: ReadableStream<Uint8Array>;
+  size: number | null;
+};
+
+export interface ObjectStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when there is no object under the key
+  get(key: string): Promise<Buffer | null>;
+  // Like get, without reading the whole object into memory
+  getStream(key: string): Promise<StoredObjectStream | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type S3StorageConfig = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+const DEFAULT_LOCAL_DIR = ".storage";
+const DEFAULT_S3_REGION = "us-east-1";
+
+/**
+ * SHA-256 of some content as hex, recorded alongside stored files
+ */
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Pass a stream through unchanged while checking its SHA-256
+ * The stream errors at the end instead of completing when the hash differs,
+ * so a client never receives a corrupted file as a successful download.
+ */
+export function verifyStreamHash(body: ReadableStream<Uint8Array>, expectedSha256: string): ReadableStream<Uint8Array> {
+  const hash = createHash("sha256");
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hash.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush(controller) {
+        if (hash.digest("hex") !== expectedSha256) {
+          controller.error(new Error("Stored object does not match its recorded hash"));
+        }
+      },
+    })
+  );
+}
+
+/**
+ * Turn a user-supplied file name into a safe key segment
+ */
+export function safeKeySegment(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9._-]+/g, "_").replace(/^[._]+/, "");
+  return cleaned.slice(-120) || "file";
+}
+
+/**
+ * Content-Disposition header for downloading a file under a user-supplied name
+ * Header values must be Latin-1, so the name goes in filename* (RFC 5987) with
+ * an ASCII-only filename for older clients.
+ */
+export function attachmentDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_") || "download";
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Storage in a directory on the local filesystem
+ * @param root - Directory holding the objects; created on first write
+ */
+export function createLocalStorage(root: string): ObjectStorage {
+  const resolvedRoot = path.resolve(root);
+  const resolve = (key: string) => {
+    const filePath = path.resolve(resolvedRoot, key);
+    if (!filePath.startsWith(resolvedRoot + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async getStream(key) {
+      const filePath = resolve(key);
+      try {
+        const { size } = await stat(filePath);
+        const body = Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+        return { body, size };
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Encode a URI component the way AWS Signature V4 expects (RFC 3986)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Storage in a bucket of an S3-compatible service, signed with AWS Signature V4
+ */
+export function createS3Storage(config: S3StorageConfig): ObjectStorage {
+  const endpoint = new URL(config.endpoint);
+  const emptyHash = hashContent(Buffer.alloc(0));
+
+  const hmac = (key: Buffer | string, value: string) => createHmac("sha256", key).update(value).digest();
+
+  async function send(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const objectPath = `/${encodeRfc3986(config.bucket)}/${key.split("/").map(encodeRfc3986).join("/")}`;
+    const basePath = endpoint.pathname.replace(/\/$/, "");
+    const url = new URL(`${basePath}${objectPath}`, endpoint);
+
+    const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const day = amzDate.slice(0, 8);
+    const payloadHash = body ? hashContent(body) : emptyHash;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...(contentType ? { "content-type": contentType } : {}),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${day}/${config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      createHash("sha256").update(canonicalRequest).digest("hex"),
+    ].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    // fetch sets Host itself from the URL
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async function fail(res: Response, action: string): Promise<never> {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`S3 ${action} failed with ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const res = await send("PUT", key, data, contentType);
+      if (!res.ok) await fail(res, `PUT ${key}`);
+    },
+    async get(key) {
+      const res = await send("GET", key);
+      if (res.status === 404) return null;
+      if (!res.ok) await fail(res, `GET ${key}`);
+      return Buffer.from(await res.arrayBuffer());
+    },
+    async getStream(key) {
+      const res = await send("GET", key);
+      if (res.status === 404) return null;
+      if (!res.ok || !res.body) await fail(res, `GET ${key}`);
+      const length = res.headers.get("content-length");
+      return { body: res.body!, size: length ? Number(length) : null };
+    },
+    async delete(key) {
+      const res = await send("DELETE", key);
+      if (!res.ok && res.status !== 404) await fail(res, `DELETE ${key}`);
+    },
+  };
+}
+
+const globalForStorage = global as unknown as { objectStorage?: ObjectStorage };
+
+/**
+ * Storage selected by STORAGE_BACKEND (created once per process)
+ * @throws Error when the backend is missing (in production), unknown or incompletely configured
+ */
+export function getStorage(): ObjectStorage {
+  if (!globalForStorage.objectStorage) {
+    const kind = process.env.STORAGE_BACKEND || (process.env.NODE_ENV === "production" ? "" : "local");
+
+    if (!kind) {
+      throw new Error("Missing STORAGE_BACKEND (local or s3); production has no default");
+    } else if (kind === "local") {
+      globalForStorage.objectStorage = createLocalStorage(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+    } else if (kind === "s3") {
+      const region = process.env.S3_REGION || DEFAULT_S3_REGION;
+      const { S3_BUCKET: bucket, S3_ACCESS_KEY_ID: accessKeyId, S3_SECRET_ACCESS_KEY: secretAccessKey } = process.env;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error("Missing S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY");
+      }
+      globalForStorage.objectStorage = createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+      });
+    } else {
+      throw new Error(`Unknown STORAGE_BACKEND: ${kind}`);
+    }
+  }
+  return globalForStorage.objectStorage;
+}
@@ -0,0 +1,28 @@
+// src/lib/tokens.ts
+/**
+ * Opaque token helpers
+ *
+ * Tokens handed to users (invite links and the like) are random strings;
+ * only their SHA-256 hash is stored so a database leak doesn't expose them.
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Hash a token for storage or lookup
+ * @param token - Raw token string
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a new random token together with its storage hash
+ * @param bytes - Amount of randomness (default 32 bytes)
+ * @returns The raw token (give to the user) and its hash (store in the database)
+ */
+export function generateToken(bytes = 32): { token: string; tokenHash: string } {
+  const token = randomBytes(bytes).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
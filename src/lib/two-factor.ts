@@ -0,0 +1,205 @@
+// src/lib/two-factor.ts
+/**
+ * TOTP two-factor authentication
+ *
+ * Codes follow RFC 6238 with the parameters every common authenticator app
+ * uses (SHA-1, 6 digits, 30-second steps); one step of clock drift either way
+ * is accepted. The last accepted step is stored so a code can't be used twice.
+ * Enrolment also issues single-use recovery codes, stored hashed, for when the
+ * device is lost.
+ *
+ * Two-factor is optional for everyone; ENFORCE_ADMIN_2FA=true makes it
+ * mandatory for ADMINs, who are then asked to enrol at their next login.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+import { prisma } from "./prisma";
+import { hashToken } from "./tokens";
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;       // Accept codes from one step before/after the current one
+const TOTP_SECRET_BYTES = 20;     // 160-bit secret, as recommended by RFC 4226
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "DJB Daily Distance Reports";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+type TwoFactorUser = {
+  id: string;
+  totpSecret: string | null;
+  totpEnabledAt: Date | null;
+  totpLastUsedStep: number | null;
+  totpRecoveryCodes: string[];
+};
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns Base32-encoded secret (the format authenticator apps expect)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+/**
+ * Build the otpauth:// URL authenticator apps import (as a link or QR code)
+ */
+export function buildOtpauthUrl(secret: string, email: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Find the time step a code belongs to
+ * @param secret - Base32 TOTP secret
+ * @param code - Code typed by the user (spaces are ignored)
+ * @returns The matching step, or null when the code is wrong or outside the drift window
+ */
+export function findTotpStep(secret: string, code: string, now = Date.now()): number | null {
+  const digits = String(code ?? "").replace(/\s+/g, "");
+  if (!/^\d+$/.test(digits) || digits.length !== TOTP_DIGITS) return null;
+
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(digits))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return String(code ?? "").trim().toLowerCase().replace(/[\s-]+/g, "");
+}
+
+/**
+ * Generate a fresh set of recovery codes
+ * @returns The codes to show the user once, and their hashes to store
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+}
+
+/**
+ * Whether the user must use two-factor (ADMINs when ENFORCE_ADMIN_2FA=true)
+ */
+export function isTwoFactorEnforced(user: { role: string }): boolean {
+  return user.role === "ADMIN" && process.env.ENFORCE_ADMIN_2FA === "true";
+}
+
+/**
+ * Turn on two-factor after the user proved their pending secret with a code
+ * @param step - Time step of the code that confirmed the secret
+ * @returns Recovery codes to show the user once
+ */
+export async function enableTwoFactor(userId: string, step: number): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpLastUsedStep: step, totpRecoveryCodes: hashes },
+  });
+  return codes;
+}
+
+/**
+ * Turn off two-factor and forget the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodes: [] },
+  });
+}
+
+/**
+ * Check a user's second factor: a current TOTP code or an unused recovery code
+ * Accepted codes are used up (the TOTP step is recorded, the recovery code removed).
+ * @returns true when the factor was accepted
+ */
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  factor: { code?: unknown; recoveryCode?: unknown }
+): Promise<boolean> {
+  if (!user.totpEnabledAt || !user.totpSecret) return false;
+
+  if (factor.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(String(factor.recoveryCode)));
+    if (!user.totpRecoveryCodes.includes(hash)) return false;
+
+    // Remove the code in one conditional statement so two concurrent requests can't both spend it
+    const count = await prisma.$executeRaw`
+      UPDATE "User" SET "totpRecoveryCodes" = array_remove("totpRecoveryCodes", ${hash})
+      WHERE "id" = ${user.id} AND ${hash} = ANY("totpRecoveryCodes")`;
+    return count === 1;
+  }
+
+  const step = findTotpStep(user.totpSecret, String(factor.code ?? ""));
+  if (step === null) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+  return count === 1;
+}
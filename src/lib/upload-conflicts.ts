@@ -0,0 +1,137 @@
+// src/lib/upload-conflicts.ts
+/**
+ * Upload conflict policies
+ *
+ * An uploaded row conflicts when a row outside the recycle bin already exists
+ * for its vehicle and date with different values. The uploader picks a policy
+ * per upload (recorded on its UploadSnapshot):
+ * - OVERWRITE (default): the uploaded values replace the existing ones
+ * - KEEP_EXISTING: the existing row is left as it is
+ * - FAIL: nothing is saved and the upload is rejected with the conflicts; as
+ *   the whole upload is saved in one transaction, it takes at most
+ *   FAIL_MAX_ROWS rows
+ * - LARGER: the larger trip distance and the larger trip count of the two are
+ *   saved, with the other uploaded values (distances in different units can't
+ *   be compared, so the uploaded distance is saved)
+ * Rows identical to the existing ones, and rows brought back from the recycle
+ * bin, are saved as usual under every policy.
+ */
+
+import { UploadConflictPolicy } from "@prisma/client";
+
+import { serializeReport } from "./report-dates";
+import { changedFields, type RowValues } from "./upload-snapshots";
+
+export type ConflictResolution = "overwritten" | "kept" | "larger" | "failed";
+
+export type UploadConflict = {
+  existing: ReturnType<typeof serializeValues>;
+  uploaded: ReturnType<typeof serializeValues>;
+  saved: ReturnType<typeof serializeValues> | null; // What the row holds afterwards; null when the upload failed
+  fields: string[];                                 // Fields where the existing and uploaded values differ
+  resolution: ConflictResolution;
+};
+
+// Constants
+export const FAIL_MAX_ROWS = 2_000;          // Largest upload the FAIL policy takes
+
+const RESOLUTIONS: Record<UploadConflictPolicy, ConflictResolution> = {
+  OVERWRITE: "overwritten",
+  KEEP_EXISTING: "kept",
+  FAIL: "failed",
+  LARGER: "larger",
+};
+
+function serializeValues(row: RowValues) {
+  return serializeReport({
+    vehicleNo: row.vehicleNo,
+    area: row.area,
+    tankerType: row.tankerType,
+    transporterName: row.transporterName,
+    reportDate: row.reportDate,
+    tripDistance: row.tripDistance,
+    distanceUnit: row.distanceUnit,
+    tripCount: row.tripCount,
+  });
+}
+
+/**
+ * Read a conflict policy from a request; OVERWRITE when none is given
+ * @throws Error with statusCode 400 for unknown policies
+ */
+export function parseConflictPolicy(value: unknown): UploadConflictPolicy {
+  const raw = String(value ?? "").trim().toUpperCase();
+  if (!raw) return "OVERWRITE";
+  if (!(raw in UploadConflictPolicy)) {
+    throw Object.assign(
+      new Error(`conflictPolicy must be one of: ${Object.keys(UploadConflictPolicy).join(", ")}`),
+      { statusCode: 400 }
+    );
+  }
+  return raw as UploadConflictPolicy;
+}
+
+/**
+ * Check an upload's size against its conflict policy
+ * @throws Error with statusCode 413 when the upload has too many rows for FAIL
+ */
+export function assertPolicyFitsUpload(policy: UploadConflictPolicy, rowCount: number): void {
+  if (policy === "FAIL" && rowCount > FAIL_MAX_ROWS) {
+    throw Object.assign(
+      new Error(
+        `Uploads of more than ${FAIL_MAX_ROWS} rows can't use the FAIL conflict policy; ` +
+          "split the file or choose another policy"
+      ),
+      { statusCode: 413 }
+    );
+  }
+}
+
+/**
+ * Decide what to save for an uploaded row that hits an existing row
+ * @param existing - Current row for the vehicle and date (outside the recycle bin)
+ * @returns The values to save (null to leave the row alone) and the conflict,
+ *          or no conflict when the values are the same
+ */
+export function resolveConflict<T extends RowValues>(
+  policy: UploadConflictPolicy,
+  existing: RowValues,
+  uploaded: T
+): { row: T | null; conflict: UploadConflict | null } {
+  const fields = changedFields(existing, uploaded);
+  if (fields.length === 0) return { row: uploaded, conflict: null };
+
+  let row: T | null = null;
+  if (policy === "OVERWRITE") {
+    row = uploaded;
+  } else if (policy === "LARGER") {
+    const sameUnit = existing.distanceUnit === uploaded.distanceUnit;
+    row = {
+      ...uploaded,
+      tripDistance: sameUnit ? Math.max(existing.tripDistance, uploaded.tripDistance) : uploaded.tripDistance,
+      tripCount: Math.max(existing.tripCount, uploaded.tripCount),
+    };
+  }
+
+  const saved = row ?? (policy === "KEEP_EXISTING" ? existing : null);
+  return {
+    row,
+    conflict: {
+      existing: serializeValues(existing),
+      uploaded: serializeValues(uploaded),
+      saved: saved ? serializeValues(saved) : null,
+      fields,
+      resolution: RESOLUTIONS[policy],
+    },
+  };
+}
+
+/**
+ * The error rejecting an upload under the FAIL policy, listing its conflicts
+ */
+export function conflictError(conflicts: UploadConflict[]) {
+  return Object.assign(
+    new Error(`Upload conflicts with ${conflicts.length} existing row(s); nothing was saved`),
+    { statusCode: 409, conflicts }
+  );
+}
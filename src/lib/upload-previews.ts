@@ -0,0 +1,222 @@
+// src/lib/upload-previews.ts
+/**
+ * Upload previews
+ *
+ * POST /api/reports/data?preview=true parses an upload without saving it: the
+ * resolved rows are kept as an UploadPreview, with the state of the existing
+ * rows they would overwrite, and the response shows every parsed row with its
+ * source, the rows that were skipped and why, and each conflict with an
+ * existing row with how the upload's conflict policy resolves it (see
+ * upload-conflicts). Committing the preview ({ previewId }) saves exactly
+ * those rows under that policy, and is refused when any row it would
+ * overwrite changed since the preview. An uploaded file is stored at preview
+ * time and becomes the file of the committed snapshot. Previews expire after a
+ * day; expired previews and their files are removed at most once an hour when
+ * a preview is created.
+ */
+
+import type { Report, UploadConflictPolicy } from "@prisma/client";
+
+import { prisma } from "./prisma";
+import { serializeReport } from "./report-dates";
+import { getStorage } from "./storage";
+import { assertPolicyFitsUpload, resolveConflict, type UploadConflict } from "./upload-conflicts";
+import { findReportsByKey, type RowValues, type UploadFileFields } from "./upload-snapshots";
+
+// Where a parsed row came from: sheet name (null for JSON records and CSV/TSV files) and 1-based row number
+export type RowSource = { sheet: string | null; rowNumber: number };
+
+// A row left out of an upload; rowNumber is null when a whole sheet was skipped
+export type SkippedRow = { sheet: string | null; rowNumber: number | null; reason: string };
+
+export type ParsedUpload<T extends RowValues = RowValues> = {
+  rows: T[];
+  sources: RowSource[]; // Parallel to rows
+  skipped: SkippedRow[];
+};
+
+type PreviewUploader = { email: string; apiKeyId: string | null };
+
+// Rows as stored in UploadPreview.rows
+type StoredRow = Omit<RowValues, "reportDate"> & { reportDate: string };
+
+// Constants
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;    // How long a preview can be committed
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;      // Minimum time between purges of expired previews
+
+let lastPurgeAt = 0;
+
+const rowKey = (row: { vehicleNo: string; reportDate: Date }) => `${row.vehicleNo}|${row.reportDate.toISOString()}`;
+
+/**
+ * State of the existing rows by vehicle/date key; any edit, delete or restore changes it
+ */
+function toBaseline(reports: Report[]): Record<string, string> {
+  return Object.fromEntries(
+    reports.map((report) => [rowKey(report), `${report.id}:${report.version}:${report.deletedAt ? "deleted" : "live"}`])
+  );
+}
+
+function sameBaseline(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Save a parsed upload as a preview and describe what committing it would do
+ * @param snapshotCode - Code the rows will be saved under (and the file is stored under)
+ * @param file - The stored upload file, or null for JSON records
+ * @returns The response body for the preview request
+ * @throws Error with statusCode 413 when the upload is too large for its conflict policy
+ */
+export async function createUploadPreview(
+  uploader: PreviewUploader,
+  upload: ParsedUpload,
+  snapshotCode: string,
+  file: UploadFileFields | null,
+  conflictPolicy: UploadConflictPolicy
+) {
+  assertPolicyFitsUpload(conflictPolicy, upload.rows.length);
+  schedulePurgeExpiredPreviews();
+
+  const existing = await findReportsByKey(upload.rows);
+  const existingByKey = new Map(existing.map((report) => [rowKey(report), report]));
+
+  const counts = { new: 0, restored: 0, unchanged: 0 };
+  const conflicts: UploadConflict[] = [];
+  for (const row of upload.rows) {
+    const current = existingByKey.get(rowKey(row));
+    if (!current) {
+      counts.new += 1;
+    } else if (current.deletedAt) {
+      counts.restored += 1;
+    } else {
+      const { conflict } = resolveConflict(conflictPolicy, current, row);
+      if (conflict) conflicts.push(conflict);
+      else counts.unchanged += 1;
+    }
+  }
+
+  const preview = await prisma.uploadPreview.create({
+    data: {
+      snapshotCode,
+      createdBy: uploader.email,
+      apiKeyId: uploader.apiKeyId,
+      rows: upload.rows.map((row) => ({ ...row, reportDate: row.reportDate.toISOString() })),
+      baseline: toBaseline(existing),
+      conflictPolicy,
+      ...file,
+      expiresAt: new Date(Date.now() + PREVIEW_TTL_MS),
+    },
+  });
+
+  return {
+    preview: true,
+    previewId: preview.id,
+    expiresAt: preview.expiresAt,
+    fileName: preview.fileName,
+    conflictPolicy,
+    summary: {
+      rows: upload.rows.length,
+      new: counts.new,
+      restored: counts.restored, // Rows brought back from the recycle bin
+      unchanged: counts.unchanged,
+      conflicts: conflicts.length,
+      overwritten: conflicts.filter((conflict) => conflict.resolution !== "kept" && conflict.resolution !== "failed").length,
+      kept: conflicts.filter((conflict) => conflict.resolution === "kept").length,
+      skipped: upload.skipped.length,
+    },
+    rows: upload.rows.map((row, index) => ({ ...serializeReport(row), source: upload.sources[index] })),
+    skipped: upload.skipped,
+    conflicts,
+  };
+}
+
+/**
+ * Take a preview for committing; it can't be committed again afterwards
+ * @returns The snapshot code, rows, stored file and conflict policy to save with
+ * @throws Error with statusCode 404 when the preview doesn't exist, belongs to
+ *         someone else, has expired or was already committed, and 409 when a
+ *         row it would overwrite changed since the preview (the preview is
+ *         dropped, so the upload has to be previewed again)
+ */
+export async function claimUploadPreview(
+  uploader: PreviewUploader,
+  previewId: string
+): Promise<{
+  snapshotCode: string;
+  rows: RowValues[];
+  file: UploadFileFields | null;
+  conflictPolicy: UploadConflictPolicy;
+}> {
+  const preview = await prisma.uploadPreview.findFirst({
+    where: { id: previewId, createdBy: uploader.email, expiresAt: { gt: new Date() } },
+  });
+  if (!preview) {
+    throw Object.assign(new Error("Upload preview not found, expired or already committed"), { statusCode: 404 });
+  }
+
+  const rows = (preview.rows as StoredRow[]).map((row) => ({ ...row, reportDate: new Date(row.reportDate) }));
+  const unchanged = sameBaseline(preview.baseline as Record<string, string>, toBaseline(await findReportsByKey(rows)));
+
+  // Deleting the preview is the claim, so two concurrent commits can't both save it
+  const { count } = await prisma.uploadPreview.deleteMany({ where: { id: preview.id } });
+  if (count === 0) {
+    throw Object.assign(new Error("Upload preview not found, expired or already committed"), { statusCode: 404 });
+  }
+
+  if (!unchanged) {
+    await removePreviewFile(preview.fileKey);
+    throw Object.assign(
+      new Error("Rows in this upload were changed since it was previewed; preview the upload again"),
+      { statusCode: 409 }
+    );
+  }
+
+  const file = preview.fileKey
+    ? {
+        fileName: preview.fileName ?? "uploaded.xlsx",
+        fileKey: preview.fileKey,
+        fileSha256: preview.fileSha256!,
+        fileSize: preview.fileSize!,
+        fileMimeType: preview.fileMimeType!,
+      }
+    : null;
+  return { snapshotCode: preview.snapshotCode, rows, file, conflictPolicy: preview.conflictPolicy };
+}
+
+async function removePreviewFile(fileKey: string | null) {
+  if (!fileKey) return;
+  await getStorage().delete(fileKey).catch((error) => {
+    console.error("Failed to remove upload preview file", error);
+  });
+}
+
+/**
+ * Remove expired previews and their files
+ * Skipped when the last purge was under an hour ago.
+ * @returns Number of previews removed
+ */
+export async function purgeExpiredPreviews(now = new Date()): Promise<number> {
+  if (now.getTime() - lastPurgeAt < PURGE_INTERVAL_MS) return 0;
+  lastPurgeAt = now.getTime();
+
+  const expired = await prisma.uploadPreview.findMany({
+    where: { expiresAt: { lte: now } },
+    select: { id: true, fileKey: true },
+  });
+  for (const preview of expired) {
+    await removePreviewFile(preview.fileKey);
+  }
+  const { count } = await prisma.uploadPreview.deleteMany({ where: { id: { in: expired.map((preview) => preview.id) } } });
+  return count;
+}
+
+/**
+ * Run purgeExpiredPreviews without holding up the request; failures are only logged
+ */
+export function schedulePurgeExpiredPreviews(): void {
+  purgeExpiredPreviews().catch((error) => {
+    console.error("Failed to purge expired upload previews", error);
+  });
+}
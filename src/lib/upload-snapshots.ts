@@ -0,0 +1,249 @@
+// src/lib/upload-snapshots.ts
+/**
+ * Upload snapshot history
+ *
+ * Every upload writes its rows under one snapshot code. The values an upload
+ * wrote are either still on the row or, once replaced, in the row's version
+ * history, so the rows of any snapshot can be rebuilt and compared with
+ * another snapshot or with the current data. Users without areas:all only see
+ * their own uploads, and only rows in their areas. The original file of a file
+ * upload is kept in storage, with its hash, size and type on the snapshot.
+ */
+
+import type { DistanceUnit, Prisma, Report, UploadSnapshot } from "@prisma/client";
+
+import { prisma } from "./prisma";
+import { LIVE_REPORTS } from "./recycle-bin";
+import { getStorage, hashContent, safeKeySegment } from "./storage";
+import { getAreaScope } from "./users";
+
+type ScopedUser = Parameters<typeof getAreaScope>[0] & { email: string };
+
+export type RowValues = {
+  vehicleNo: string;
+  area: string;
+  tankerType: string;
+  transporterName: string;
+  reportDate: Date;
+  tripDistance: number;
+  distanceUnit: DistanceUnit;
+  tripCount: number;
+};
+
+export type SnapshotRow = RowValues & {
+  reportId: string;
+  version: number;
+  uploadedBy: string;
+  uploadedAt: Date;
+  status: "current" | "replaced" | "deleted"; // Whether the row still holds these values
+};
+
+export type SnapshotDiff = {
+  added: RowValues[];
+  removed: RowValues[];
+  changed: Array<{ before: RowValues; after: RowValues; fields: string[] }>;
+  unchanged: RowValues[];
+};
+
+// UploadSnapshot fields describing the uploaded file
+export type UploadFileFields = {
+  fileName: string;
+  fileKey: string;
+  fileSha256: string;
+  fileSize: number;
+  fileMimeType: string;
+};
+
+// Types assumed when the client doesn't send one, by file extension
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+};
+
+// Fields compared when diffing; the vehicle and date are the row key
+const DIFF_FIELDS = ["area", "tankerType", "transporterName", "tripDistance", "distanceUnit", "tripCount"] as const;
+
+const rowKey = (row: { vehicleNo: string; reportDate: Date }) => `${row.vehicleNo}|${row.reportDate.toISOString()}`;
+
+const LOOKUP_BATCH_SIZE = 500; // Number of vehicle/date keys per report lookup
+
+const byVehicleAndDate = (a: RowValues, b: RowValues) =>
+  a.vehicleNo.localeCompare(b.vehicleNo) || a.reportDate.getTime() - b.reportDate.getTime();
+
+/**
+ * Copy the compared values (and key) from a report or version row
+ */
+function pickValues(row: RowValues): RowValues {
+  return {
+    vehicleNo: row.vehicleNo,
+    area: row.area,
+    tankerType: row.tankerType,
+    transporterName: row.transporterName,
+    reportDate: row.reportDate,
+    tripDistance: row.tripDistance,
+    distanceUnit: row.distanceUnit,
+    tripCount: row.tripCount,
+  };
+}
+
+/**
+ * The compared fields whose values differ between two versions of a row
+ */
+export function changedFields(before: RowValues, after: RowValues): string[] {
+  return DIFF_FIELDS.filter((field) => before[field] !== after[field]);
+}
+
+/**
+ * Report rows (recycle bin included) for the vehicle/date keys of some rows
+ */
+export async function findReportsByKey(rows: RowValues[]): Promise<Report[]> {
+  const reports: Report[] = [];
+  for (let i = 0; i < rows.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = rows.slice(i, i + LOOKUP_BATCH_SIZE);
+    reports.push(
+      ...(await prisma.report.findMany({
+        where: { OR: batch.map((row) => ({ vehicleNo: row.vehicleNo, reportDate: row.reportDate })) },
+      }))
+    );
+  }
+  return reports;
+}
+
+/**
+ * Keep the original file of an upload
+ * @param snapshotCode - Snapshot the file belongs to (part of its storage key)
+ * @param format - Format the upload was read as; sets the stored content type
+ *                 (the type the client sent is never trusted)
+ * @returns The snapshot fields to save with the upload
+ */
+export async function storeUploadFile(
+  snapshotCode: string,
+  fileName: string,
+  format: "xlsx" | "csv" | "tsv",
+  data: Buffer
+): Promise<UploadFileFields> {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  const fileMimeType = MIME_TYPES_BY_EXTENSION[format === "xlsx" && extension === "xls" ? "xls" : format];
+  const fileKey = `uploads/${snapshotCode}/${safeKeySegment(fileName)}`;
+  await getStorage().put(fileKey, data, fileMimeType);
+  return { fileName, fileKey, fileSha256: hashContent(data), fileSize: data.length, fileMimeType };
+}
+
+/**
+ * Content type to serve a stored upload with: the recorded type when it is
+ * one the app sets itself, since older uploads recorded what the client sent
+ */
+export function uploadFileContentType(fileMimeType: string | null): string {
+  return fileMimeType && Object.values(MIME_TYPES_BY_EXTENSION).includes(fileMimeType)
+    ? fileMimeType
+    : "application/octet-stream";
+}
+
+/**
+ * Snapshots the user may see: every upload with areas:all, otherwise their own
+ */
+export function snapshotScopeWhere(user: ScopedUser): Prisma.UploadSnapshotWhereInput {
+  return getAreaScope(user) ? { uploadedBy: user.email } : {};
+}
+
+/**
+ * Load a snapshot the user may see
+ * @throws Error with statusCode 404 when it doesn't exist or is out of scope
+ */
+export async function findSnapshot(user: ScopedUser, snapshotCode: string): Promise<UploadSnapshot> {
+  const snapshot = await prisma.uploadSnapshot.findFirst({
+    where: { snapshotCode, ...snapshotScopeWhere(user) },
+  });
+  if (!snapshot) {
+    throw Object.assign(new Error("Upload not found"), { statusCode: 404 });
+  }
+  return snapshot;
+}
+
+/**
+ * The values an upload wrote, one entry per row, in the user's areas
+ * When an upload repeated a row, the values it left behind are used.
+ */
+export async function loadSnapshotRows(user: ScopedUser, snapshotCode: string): Promise<SnapshotRow[]> {
+  const scope = getAreaScope(user);
+  const areaWhere = scope ? { area: { in: scope } } : {};
+
+  const [versions, reports] = await Promise.all([
+    prisma.reportVersion.findMany({ where: { snapshotCode, ...areaWhere }, orderBy: { version: "asc" } }),
+    prisma.report.findMany({ where: { snapshotCode, ...areaWhere } }),
+  ]);
+
+  const rows = new Map<string, SnapshotRow>();
+  for (const version of versions) {
+    // Values the upload replaced itself weren't what it left behind
+    if (version.replacedBySnapshot === snapshotCode || rows.has(version.reportId)) continue;
+    rows.set(version.reportId, {
+      ...pickValues(version),
+      reportId: version.reportId,
+      version: version.version,
+      uploadedBy: version.uploadedBy,
+      uploadedAt: version.uploadedAt,
+      status: "replaced",
+    });
+  }
+  for (const report of reports) {
+    if (rows.has(report.id)) continue;
+    rows.set(report.id, {
+      ...pickValues(report),
+      reportId: report.id,
+      version: report.version,
+      uploadedBy: report.uploadedBy,
+      uploadedAt: report.uploadedAt,
+      status: report.deletedAt ? "deleted" : "current",
+    });
+  }
+
+  return Array.from(rows.values()).sort(byVehicleAndDate);
+}
+
+/**
+ * Current rows (outside the recycle bin) for the vehicle/date keys of some rows
+ */
+export async function loadCurrentRows(user: ScopedUser, keys: RowValues[]): Promise<RowValues[]> {
+  if (keys.length === 0) return [];
+  const scope = getAreaScope(user);
+  const times = keys.map((row) => row.reportDate.getTime()).sort((a, b) => a - b);
+  const wanted = new Set(keys.map(rowKey));
+
+  const reports = await prisma.report.findMany({
+    where: {
+      vehicleNo: { in: Array.from(new Set(keys.map((row) => row.vehicleNo))) },
+      reportDate: { gte: new Date(times[0]), lte: new Date(times[times.length - 1]) },
+      ...(scope ? { area: { in: scope } } : {}),
+      ...LIVE_REPORTS,
+    },
+  });
+  return reports.filter((report) => wanted.has(rowKey(report))).map(pickValues).sort(byVehicleAndDate);
+}
+
+/**
+ * Compare two sets of rows by vehicle and date
+ * @param base - Rows before (e.g. the older snapshot)
+ * @param target - Rows after (a newer snapshot or the current data)
+ */
+export function diffRows(base: RowValues[], target: RowValues[]): SnapshotDiff {
+  const baseByKey = new Map(base.map((row) => [rowKey(row), row]));
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const after of target) {
+    const before = baseByKey.get(rowKey(after));
+    baseByKey.delete(rowKey(after));
+    if (!before) {
+      diff.added.push(after);
+      continue;
+    }
+    const fields = changedFields(before, after);
+    if (fields.length > 0) diff.changed.push({ before, after, fields });
+    else diff.unchanged.push(after);
+  }
+  diff.removed = Array.from(baseByKey.values());
+
+  return diff;
+}
@@ -0,0 +1,92 @@
+// src/lib/user-tokens.ts
+/**
+ * Single-use emailed tokens (password reset and email verification)
+ *
+ * Tokens are stored hashed in UserToken, expire, and can be consumed once.
+ * Issuing a new token invalidates earlier unused tokens of the same type.
+ */
+
+import type { UserTokenType } from "@prisma/client";
+
+import { prisma } from "./prisma";
+import { sendMail } from "./mail";
+import { generateToken, hashToken } from "./tokens";
+
+const TOKEN_TTL_MS: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,             // 1 hour
+  EMAIL_VERIFICATION: 3 * 24 * 60 * 60 * 1000, // 3 days
+};
+
+/**
+ * Issue a new token for a user
+ * @returns The raw token to put in the emailed link
+ */
+export async function createUserToken(userId: string, type: UserTokenType): Promise<string> {
+  const { token, tokenHash } = generateToken();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: now },
+    }),
+    prisma.userToken.create({
+      data: { userId, type, tokenHash, expiresAt: new Date(now.getTime() + TOKEN_TTL_MS[type]) },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Mark a token as used and return its owner
+ * @param token - Raw token from the link
+ * @param type - Expected token type
+ * @returns The user id the token was issued to
+ * @throws Error with statusCode 400 when the token is unknown, expired or already used
+ */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string> {
+  const stored = await prisma.userToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!stored || stored.type !== type || stored.usedAt || stored.expiresAt < new Date()) {
+    throw Object.assign(new Error("This link is invalid or has expired"), { statusCode: 400 });
+  }
+
+  // Conditional update so the same token can't be consumed twice concurrently
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    throw Object.assign(new Error("This link is invalid or has expired"), { statusCode: 400 });
+  }
+
+  return stored.userId;
+}
+
+/**
+ * Email a password reset link
+ */
+export async function sendPasswordResetEmail(user: { id: string; email: string }, appUrl: string) {
+  const token = await createUserToken(user.id, "PASSWORD_RESET");
+  const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Someone asked to reset the password for ${user.email}.\n\n`
+      + `Open this link within the next hour to choose a new password:\n${link}\n\n`
+      + "If you didn't ask for this, you can ignore this email.",
+  });
+}
+
+/**
+ * Email an address verification link
+ */
+export async function sendVerificationEmail(user: { id: string; email: string }, appUrl: string) {
+  const token = await createUserToken(user.id, "EMAIL_VERIFICATION");
+  const link = `${appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Please confirm that ${user.email} is your email address by opening this link:\n${link}`,
+  });
+}
@@ -1,29 +1,154 @@
-import { randomBytes } from "crypto";
-import bcrypt from "bcrypt";
+import type { Prisma, User } from "@prisma/client";
 
+import { authenticateApiKey, readApiKey } from "../lib/api-keys";
 import { prisma } from "../lib/prisma";
+import { verifyBearer, type JwtClaims } from "../lib/auth";
+import { hasPermission, ROLE_PERMISSIONS, type Permission } from "../lib/permissions";
 
-export async function ensureUserByEmail(email: string) {
-  const trimmed = email.trim().toLowerCase();
-  if (!trimmed) {
-    throw Object.assign(new Error("User email is required"), { statusCode: 400 });
+export const MIN_PASSWORD_LENGTH = 8;
+
+// User fields that are safe to return from admin APIs (never the password hash)
+export const USER_SUMMARY_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  deactivatedAt: true,
+  lastLoginAt: true,
+  failedLoginCount: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+  areas: true,
+  totpEnabledAt: true,
+  createdAt: true,
+} as const;
+
+// Signed-in user; apiKeyId and apiKeyScopes are set when the request was authenticated with an API key
+export type AuthenticatedUser = User & { apiKeyId: string | null; apiKeyScopes: Permission[] | null };
+
+/**
+ * Resolve the signed-in user from the "Authorization: Bearer <token>" header,
+ * or the owner of the API key sent as a bearer token or "X-API-Key" header
+ * The user is looked up by the token's subject so the identity can't be spoofed
+ * by anything the client puts in the request body
+ * @param req - Incoming API request
+ * @param permission - Permission the route needs; checked against the user's current role
+ *                     (and, for API keys, the key's scopes)
+ * @returns The matching User record
+ * @throws Error with statusCode 401 when the token or key is missing, invalid, stale or
+ *         revoked, or the account is deactivated,
+ *         or 403 when the user's role (or the key's scopes) lack the permission
+ */
+export async function requireUser(req: Request, permission?: Permission): Promise<AuthenticatedUser> {
+  const rawKey = readApiKey(req);
+  if (rawKey) {
+    return requireApiKeyOwner(rawKey, permission);
+  }
+
+  let claims: JwtClaims;
+  try {
+    claims = verifyBearer(req.headers.get("authorization"));
+  } catch (error: any) {
+    const message = error?.message === "NO_TOKEN" ? "Authentication required" : "Invalid or expired token";
+    throw Object.assign(new Error(message), { statusCode: 401 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: claims.sub } });
+  if (!user) {
+    throw Object.assign(new Error("Invalid or expired token"), { statusCode: 401 });
+  }
+
+  if (!user.isActive) {
+    throw Object.assign(new Error("Account is deactivated"), { statusCode: 401 });
   }
 
-  const existing = await prisma.user.findUnique({ where: { email: trimmed } });
-  if (existing) {
-    return existing.email;
+  if ((claims.ver ?? 0) !== user.tokenVersion) {
+    throw Object.assign(new Error("Session has been revoked"), { statusCode: 401 });
   }
 
-  const passwordSeed = randomBytes(32).toString("hex");
-  const hashed = await bcrypt.hash(passwordSeed, 10);
+  if (permission && !hasPermission(user.role, permission)) {
+    throw Object.assign(new Error(`Missing permission: ${permission}`), { statusCode: 403 });
+  }
+
+  return { ...user, apiKeyId: null, apiKeyScopes: null };
+}
+
+async function requireApiKeyOwner(rawKey: string, permission?: Permission): Promise<AuthenticatedUser> {
+  const { owner, ...apiKey } = await authenticateApiKey(rawKey);
+
+  if (!owner.isActive) {
+    throw Object.assign(new Error("Account is deactivated"), { statusCode: 401 });
+  }
+
+  if (permission && !(apiKey.scopes.includes(permission) && hasPermission(owner.role, permission))) {
+    throw Object.assign(new Error(`Missing permission: ${permission}`), { statusCode: 403 });
+  }
+
+  return { ...owner, apiKeyId: apiKey.id, apiKeyScopes: apiKey.scopes as Permission[] };
+}
+
+/**
+ * Permissions the request actually has: the role's, narrowed to the key's
+ * scopes when it was authenticated with an API key
+ */
+export function getEffectivePermissions(user: AuthenticatedUser): Permission[] {
+  const rolePermissions = ROLE_PERMISSIONS[user.role] ?? [];
+  return user.apiKeyScopes ? rolePermissions.filter((permission) => user.apiKeyScopes!.includes(permission)) : rolePermissions;
+}
+
+type ScopedUser = { role: string; areas: string[] };
+
+/**
+ * Trim, drop blanks and de-duplicate a list of area names
+ */
+export function normalizeAreas(areas: unknown[]): string[] {
+  return Array.from(new Set(areas.map((area) => String(area ?? "").trim()).filter(Boolean))).sort();
+}
+
+/**
+ * Areas a user may see and modify
+ * @returns The assigned areas, or null when the user may access every area
+ */
+export function getAreaScope(user: ScopedUser): string[] | null {
+  return hasPermission(user.role, "areas:all") ? null : user.areas;
+}
+
+/**
+ * Prisma filter limiting Report queries to the user's areas
+ */
+export function areaScopeWhere(user: ScopedUser): Prisma.ReportWhereInput {
+  const scope = getAreaScope(user);
+  return scope ? { area: { in: scope } } : {};
+}
+
+/**
+ * Ensure every given area is within the user's scope
+ * @throws Error with statusCode 403 listing the areas the user may not access
+ */
+export function assertAreasAllowed(user: ScopedUser, areas: Iterable<string>): void {
+  const scope = getAreaScope(user);
+  if (!scope) return;
+
+  const denied = Array.from(new Set(areas)).filter((area) => !scope.includes(area));
+  if (denied.length > 0) {
+    throw Object.assign(new Error(`Not permitted for area(s): ${denied.join(", ")}`), { statusCode: 403 });
+  }
+}
+
+/**
+ * Make the BOOTSTRAP_ADMIN_EMAIL account an ADMIN while the deployment has no
+ * active ADMIN, so the first admin can be created without database access
+ * Does nothing once any active ADMIN exists.
+ * @returns The user, with its new role when it was promoted
+ */
+export async function promoteBootstrapAdmin(user: User): Promise<User> {
+  const bootstrapEmail = process.env.BOOTSTRAP_ADMIN_EMAIL?.trim().toLowerCase();
+  if (!bootstrapEmail || user.email !== bootstrapEmail || user.role === "ADMIN") return user;
 
-  await prisma.user.create({
-    data: {
-      email: trimmed,
-      password: hashed,
-      name: trimmed.split("@")[0] ?? null,
-    },
-  });
+  const admins = await prisma.user.count({ where: { role: "ADMIN", isActive: true } });
+  if (admins > 0) return user;
 
-  return trimmed;
+  console.info(`Promoting ${user.email} to ADMIN (BOOTSTRAP_ADMIN_EMAIL, no active admin)`);
+  return prisma.user.update({ where: { id: user.id }, data: { role: "ADMIN" } });
 }
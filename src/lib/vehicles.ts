@@ -0,0 +1,228 @@
+// src/lib/vehicles.ts
+/**
+ * Vehicle registry
+ *
+ * Each tanker has one Vehicle keyed by its registration number (the vehicleNo
+ * on reports) with its current area, tanker type, transporter, capacity and
+ * status. Registration numbers are kept in canonical form (canonicalVehicleNo).
+ * Every change to those attributes starts a new effective-dated
+ * VehicleAssignment, so a report resolves to the attributes that applied on
+ * its own date. Uploads link rows to the vehicle and register unknown ones.
+ */
+
+import type { Prisma, Vehicle, VehicleAssignment } from "@prisma/client";
+
+import { parseReportDate } from "./report-dates";
+
+export type VehicleAttributes = {
+  area: string;
+  tankerType: string;
+  transporterName: string;
+  capacityLitres: number | null;
+};
+
+type VehicleWithAssignments = Vehicle & { assignments: VehicleAssignment[] };
+
+// Include for Report queries whose rows are passed to withVehicleAttributes
+export const REPORT_VEHICLE_INCLUDE = {
+  vehicle: { include: { assignments: { orderBy: { effectiveFrom: "asc" } } } },
+} satisfies Prisma.ReportInclude;
+
+/**
+ * Canonical form of a registration number: upper case letters and digits only
+ * "DL1LAB1234", "DL 1L AB 1234" and "dl-1l-ab-1234" all become "DL1LAB1234".
+ * Reports store vehicleNo in this form so the vehicle/date key can't be
+ * side-stepped by spacing or punctuation.
+ */
+export function canonicalVehicleNo(value: unknown): string {
+  return String(value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Validate vehicle attributes from a request body
+ * @param body - Request body
+ * @param partial - When true, omitted fields are left out instead of rejected
+ * @returns The provided attributes, trimmed
+ * @throws Error with statusCode 400 when a field is missing or invalid
+ */
+export function parseVehicleAttributes(body: Record<string, unknown>, partial: true): Partial<VehicleAttributes>;
+export function parseVehicleAttributes(body: Record<string, unknown>, partial?: false): VehicleAttributes;
+export function parseVehicleAttributes(body: Record<string, unknown>, partial = false): Partial<VehicleAttributes> {
+  const attributes: Partial<VehicleAttributes> = {};
+
+  for (const field of ["area", "tankerType", "transporterName"] as const) {
+    if (body[field] === undefined && partial) continue;
+    const value = String(body[field] ?? "").trim();
+    if (!value) {
+      throw Object.assign(new Error(`${field} is required`), { statusCode: 400 });
+    }
+    attributes[field] = value;
+  }
+
+  if (body.capacityLitres !== undefined || !partial) {
+    const raw = body.capacityLitres;
+    if (raw === null || raw === undefined || raw === "") {
+      attributes.capacityLitres = null;
+    } else {
+      const capacity = Number(raw);
+      if (!Number.isInteger(capacity) || capacity <= 0) {
+        throw Object.assign(new Error("capacityLitres must be a positive whole number"), { statusCode: 400 });
+      }
+      attributes.capacityLitres = capacity;
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse the date a change takes effect, defaulting to today
+ * @throws Error with statusCode 400 when the date is invalid
+ */
+export function parseEffectiveFrom(value: unknown): Date {
+  const date = parseReportDate(value ?? new Date());
+  if (!date) {
+    throw Object.assign(new Error("effectiveFrom must be a valid date"), { statusCode: 400 });
+  }
+  return date;
+}
+
+/**
+ * Find the assignment in force on a date
+ * Dates before the first assignment resolve to the first one.
+ * @param assignments - A vehicle's assignments in any order
+ * @returns The matching assignment, or null when there are none
+ */
+export function assignmentOn<T extends { effectiveFrom: Date; effectiveTo: Date | null }>(
+  assignments: T[],
+  date: Date
+): T | null {
+  const sorted = [...assignments].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  const time = date.getTime();
+  const match = sorted.find(
+    (assignment) =>
+      assignment.effectiveFrom.getTime() <= time && (!assignment.effectiveTo || time < assignment.effectiveTo.getTime())
+  );
+  return match ?? sorted[0] ?? null;
+}
+
+/**
+ * Replace a report's area, tanker type and transporter with those its vehicle
+ * had on the report date; rows without a linked vehicle are returned unchanged
+ */
+export function withVehicleAttributes<
+  T extends {
+    reportDate: Date;
+    area: string;
+    tankerType: string;
+    transporterName: string;
+    vehicle?: VehicleWithAssignments | null;
+  },
+>(row: T): T {
+  if (!row.vehicle) return row;
+  const source = assignmentOn(row.vehicle.assignments, row.reportDate) ?? row.vehicle;
+  return {
+    ...row,
+    area: source.area,
+    tankerType: source.tankerType,
+    transporterName: source.transporterName,
+  };
+}
+
+/**
+ * Prisma filter for reports that can resolve to one of the given areas with
+ * withVehicleAttributes: unlinked rows by their own area, linked rows by any
+ * of their vehicle's assignments (or the vehicle itself when it has none)
+ * It can match rows whose assignment on their date is elsewhere, so the
+ * resolved rows still have to be narrowed with inResolvedAreas.
+ */
+export function resolvedAreaWhere(areas: string[]): Prisma.ReportWhereInput {
+  return {
+    OR: [
+      { vehicleId: null, area: { in: areas } },
+      { vehicle: { assignments: { some: { area: { in: areas } } } } },
+      { vehicle: { area: { in: areas }, assignments: { none: {} } } },
+    ],
+  };
+}
+
+/**
+ * Keep resolved rows (see withVehicleAttributes) in the given areas
+ * @param areas - Allowed areas, or null for every area
+ */
+export function inResolvedAreas<T extends { area: string }>(rows: T[], areas: string[] | null): T[] {
+  return areas ? rows.filter((row) => areas.includes(row.area)) : rows;
+}
+
+/**
+ * Look up the vehicles for a set of report rows, registering any that are new
+ * A new vehicle takes the attributes of its latest row, with one assignment
+ * starting on its earliest report date.
+ * @param db - Transaction client, so registrations roll back with the upload
+ * @param rows - Rows about to be saved
+ * @param createdBy - Email recorded on new assignments
+ * @returns Vehicle id by registration number
+ */
+export async function linkVehicles(
+  db: Prisma.TransactionClient,
+  rows: Array<{ vehicleNo: string; reportDate: Date; area: string; tankerType: string; transporterName: string }>,
+  createdBy: string
+): Promise<Map<string, string>> {
+  const registrationNos = Array.from(new Set(rows.map((row) => row.vehicleNo)));
+  if (registrationNos.length === 0) return new Map();
+
+  const existing = await db.vehicle.findMany({
+    where: { registrationNo: { in: registrationNos } },
+    select: { id: true, registrationNo: true },
+  });
+  const ids = new Map(existing.map((vehicle) => [vehicle.registrationNo, vehicle.id]));
+
+  const firstSeen = new Map<string, Date>();
+  const latestRow = new Map<string, (typeof rows)[number]>();
+  for (const row of rows) {
+    if (ids.has(row.vehicleNo)) continue;
+    const first = firstSeen.get(row.vehicleNo);
+    if (!first || row.reportDate < first) firstSeen.set(row.vehicleNo, row.reportDate);
+    const latest = latestRow.get(row.vehicleNo);
+    if (!latest || row.reportDate >= latest.reportDate) latestRow.set(row.vehicleNo, row);
+  }
+
+  if (latestRow.size === 0) return ids;
+
+  const attributesOf = (registrationNo: string) => {
+    const row = latestRow.get(registrationNo)!;
+    return { area: row.area, tankerType: row.tankerType, transporterName: row.transporterName };
+  };
+
+  // skipDuplicates: another upload may register the same vehicle concurrently
+  const created = await db.vehicle.createManyAndReturn({
+    data: Array.from(latestRow.keys()).map((registrationNo) => ({ registrationNo, ...attributesOf(registrationNo) })),
+    skipDuplicates: true,
+    select: { id: true, registrationNo: true },
+  });
+
+  await db.vehicleAssignment.createMany({
+    data: created.map((vehicle) => ({
+      vehicleId: vehicle.id,
+      ...attributesOf(vehicle.registrationNo),
+      effectiveFrom: firstSeen.get(vehicle.registrationNo)!,
+      createdBy,
+    })),
+  });
+
+  for (const vehicle of created) {
+    ids.set(vehicle.registrationNo, vehicle.id);
+  }
+
+  if (ids.size < registrationNos.length) {
+    const raced = await db.vehicle.findMany({
+      where: { registrationNo: { in: registrationNos.filter((registrationNo) => !ids.has(registrationNo)) } },
+      select: { id: true, registrationNo: true },
+    });
+    for (const vehicle of raced) {
+      ids.set(vehicle.registrationNo, vehicle.id);
+    }
+  }
+
+  return ids;
+}